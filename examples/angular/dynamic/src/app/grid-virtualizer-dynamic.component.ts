@@ -2,17 +2,12 @@ import {
   ChangeDetectionStrategy,
   Component,
   ElementRef,
-  afterNextRender,
   computed,
   effect,
-  signal,
   viewChild,
   viewChildren,
 } from '@angular/core'
-import {
-  injectVirtualizer,
-  injectWindowVirtualizer,
-} from '@tanstack/angular-virtual'
+import { injectGridVirtualizer } from '@tanstack/angular-virtual'
 import { generateColumns, generateData } from './utils'
 
 @Component({
@@ -28,21 +23,17 @@ import { generateColumns, generateData } from './utils'
     >
       <div
         style="position: relative;"
-        [style.height.px]="rowVirtualizer.getTotalSize()"
+        [style.height.px]="gridVirtualizer.getTotalSize().height"
       >
-        @for (row of rowVirtualizer.getVirtualItems(); track row.key) {
+        @for (row of gridVirtualizer.getVirtualRows(); track row.key) {
           <div
             [attr.data-index]="row.index"
             #virtualRow
             style="position: absolute; top: 0; left: 0; display: flex;"
-            [style.transform]="
-              'translateY(' +
-              (row.start - rowVirtualizer.options().scrollMargin) +
-              'px)'
-            "
+            [style.transform]="'translateY(' + row.start + 'px)'"
           >
             <div [style.width.px]="width()[0]"></div>
-            @for (col of columnVirtualizer.getVirtualItems(); track col.key) {
+            @for (col of gridVirtualizer.getVirtualColumns(); track col.key) {
               <div
                 style="border-bottom: 1px solid #c8c8c8; border-right: 1px solid #c8c8c8; padding: 7px 12px"
                 [style.minHeight.px]="row.index === 0 ? 50 : row.size"
@@ -65,6 +56,7 @@ import { generateColumns, generateData } from './utils'
   `,
   styles: `
     .scroll-container {
+      height: 600px;
       overflow: auto;
     }
   `,
@@ -74,38 +66,24 @@ export class GridVirtualizerDynamic {
   columns = generateColumns(30)
   data = generateData(this.columns)
 
-  parentOffset = signal(0)
-
-  constructor() {
-    afterNextRender(() =>
-      this.parentOffset.set(this.scrollElement()!.nativeElement.offsetTop),
-    )
-  }
-
   getColumnWidth = (index: number) => this.columns[index].width
 
-  rowVirtualizer = injectWindowVirtualizer(() => ({
-    count: this.data.length,
-    estimateSize: () => 350,
-    overscan: 5,
-    scrollMargin: this.parentOffset(),
-  }))
-
-  columnVirtualizer = injectVirtualizer(() => ({
-    horizontal: true,
+  gridVirtualizer = injectGridVirtualizer(() => ({
     scrollElement: this.scrollElement(),
-    count: this.columns.length,
-    estimateSize: this.getColumnWidth,
+    rowCount: this.data.length,
+    columnCount: this.columns.length,
+    estimateRowSize: () => 350,
+    estimateColumnSize: this.getColumnWidth,
     overscan: 5,
   }))
 
   width = computed(
     () => {
-      const virtualColumns = this.columnVirtualizer.getVirtualItems()
+      const virtualColumns = this.gridVirtualizer.getVirtualColumns()
       return virtualColumns.length > 0
         ? [
             virtualColumns[0].start,
-            this.columnVirtualizer.getTotalSize() -
+            this.gridVirtualizer.getTotalSize().width -
               virtualColumns[virtualColumns.length - 1].end,
           ]
         : [0, 0]
@@ -118,7 +96,7 @@ export class GridVirtualizerDynamic {
   #measureItems = effect(
     () =>
       this.virtualRows().forEach((el) => {
-        this.rowVirtualizer.measureElement(el.nativeElement)
+        this.gridVirtualizer.rows.measureElement(el.nativeElement)
       }),
     { allowSignalWrites: true },
   )
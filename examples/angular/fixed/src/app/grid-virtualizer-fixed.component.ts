@@ -4,7 +4,7 @@ import {
   ElementRef,
   viewChild,
 } from '@angular/core'
-import { injectVirtualizer } from '@tanstack/angular-virtual'
+import { injectGridVirtualizer } from '@tanstack/angular-virtual'
 
 @Component({
   standalone: true,
@@ -15,45 +15,35 @@ import { injectVirtualizer } from '@tanstack/angular-virtual'
     <div #scrollElement class="list scroll-container">
       <div
         style="position: relative; height: 100%;"
-        [style.width.px]="columnVirtualizer.getTotalSize()"
-        [style.height.px]="rowVirtualizer.getTotalSize()"
+        [style.width.px]="gridVirtualizer.getTotalSize().width"
+        [style.height.px]="gridVirtualizer.getTotalSize().height"
       >
-        @for (
-          row of rowVirtualizer.getVirtualItems();
-          track row.index;
-          let rowEven = $even
-        ) {
-          @for (
-            col of columnVirtualizer.getVirtualItems();
-            track col.index;
-            let colEven = $even
-          ) {
-            <div
-              [attr.data-index]="col.index"
-              [class]="
-                col.index % 2
-                  ? row.index % 2 === 0
-                    ? 'list-item-odd'
-                    : 'list-item-even'
-                  : row.index % 2
-                    ? 'list-item-odd'
-                    : 'list-item-even'
-              "
-              style="position: absolute; top: 0; left: 0;"
-              [style.height.px]="row.size"
-              [style.width.px]="col.size"
-              [style.transform]="
-                'translateX(' +
-                col.start +
-                'px)' +
-                'translateY(' +
-                row.start +
-                'px)'
-              "
-            >
-              Cell {{ row.index }}, {{ col.index }}
-            </div>
-          }
+        @for (cell of gridVirtualizer.getVirtualCells(); track cell.key) {
+          <div
+            [attr.data-index]="cell.column.index"
+            [class]="
+              cell.column.index % 2
+                ? cell.row.index % 2 === 0
+                  ? 'list-item-odd'
+                  : 'list-item-even'
+                : cell.row.index % 2
+                  ? 'list-item-odd'
+                  : 'list-item-even'
+            "
+            style="position: absolute; top: 0; left: 0;"
+            [style.height.px]="cell.row.size"
+            [style.width.px]="cell.column.size"
+            [style.transform]="
+              'translateX(' +
+              cell.column.start +
+              'px)' +
+              'translateY(' +
+              cell.row.start +
+              'px)'
+            "
+          >
+            Cell {{ cell.row.index }}, {{ cell.column.index }}
+          </div>
         }
       </div>
     </div>
@@ -69,18 +59,12 @@ import { injectVirtualizer } from '@tanstack/angular-virtual'
 export class GridVirtualizerFixed {
   scrollElement = viewChild<ElementRef<HTMLDivElement>>('scrollElement')
 
-  rowVirtualizer = injectVirtualizer(() => ({
+  gridVirtualizer = injectGridVirtualizer(() => ({
     scrollElement: this.scrollElement(),
-    count: 10000,
-    estimateSize: () => 35,
-    overscan: 5,
-  }))
-
-  columnVirtualizer = injectVirtualizer(() => ({
-    horizontal: true,
-    scrollElement: this.scrollElement(),
-    count: 10000,
-    estimateSize: () => 100,
+    rowCount: 10000,
+    columnCount: 10000,
+    estimateRowSize: () => 35,
+    estimateColumnSize: () => 100,
     overscan: 5,
   }))
 }
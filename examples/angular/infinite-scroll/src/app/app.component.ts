@@ -3,7 +3,6 @@ import {
   Component,
   ElementRef,
   computed,
-  effect,
   viewChild,
 } from '@angular/core'
 import { injectVirtualizer } from '@tanstack/angular-virtual'
@@ -101,27 +100,10 @@ export class InfiniteScrollComponent {
       : this.allRows().length,
     estimateSize: () => 100,
     overscan: 5,
+    reachedThreshold: 5,
+    onEndReached: () =>
+      this.query.hasNextPage() ? this.query.fetchNextPage() : undefined,
   }))
-
-  #fetchNextPage = effect(
-    () => {
-      const lastItem =
-        this.virtualizer.getVirtualItems()[
-          this.virtualizer.getVirtualItems().length - 1
-        ]
-      if (!lastItem) {
-        return
-      }
-      if (
-        lastItem.index >= this.allRows().length - 1 &&
-        this.query.hasNextPage() &&
-        !this.query.isFetchingNextPage()
-      ) {
-        this.query.fetchNextPage()
-      }
-    },
-    { allowSignalWrites: true },
-  )
 }
 
 @Component({
@@ -8,7 +8,7 @@ import {
   viewChild,
   viewChildren,
 } from '@angular/core'
-import { injectVirtualizer } from '@tanstack/angular-virtual'
+import { injectGridVirtualizer } from '@tanstack/angular-virtual'
 
 @Component({
   standalone: true,
@@ -19,13 +19,13 @@ import { injectVirtualizer } from '@tanstack/angular-virtual'
     <button type="button" (click)="toggleShow()">Toggle</button>
     <button
       type="button"
-      (click)="rowVirtualizer.scrollToIndex(rows().length / 2)"
+      (click)="gridVirtualizer.rows.scrollToIndex(rows().length / 2)"
     >
       Scroll to the middle
     </button>
     <button
       type="button"
-      (click)="rowVirtualizer.scrollToIndex(rows().length - 1)"
+      (click)="gridVirtualizer.rows.scrollToIndex(rows().length - 1)"
     >
       Scroll to the end
     </button>
@@ -33,38 +33,36 @@ import { injectVirtualizer } from '@tanstack/angular-virtual'
       <div #scrollElement class="list scroll-container">
         <div
           style="position: relative;"
-          [style.height.px]="rowVirtualizer.getTotalSize()"
-          [style.width.px]="columnVirtualizer.getTotalSize()"
+          [style.height.px]="gridVirtualizer.getTotalSize().height"
+          [style.width.px]="gridVirtualizer.getTotalSize().width"
         >
-          @for (row of rowVirtualizer.getVirtualItems(); track row.index) {
-            @for (col of columnVirtualizer.getVirtualItems(); track col.index) {
-              <div
-                #virtualItem
-                [attr.data-colindex]="col.index"
-                [attr.data-rowindex]="row.index"
-                [class]="
-                  col.index % 2
-                    ? row.index % 2 === 0
-                      ? 'list-item-odd'
-                      : 'list-item-even'
-                    : row.index % 2
-                      ? 'list-item-odd'
-                      : 'list-item-even'
-                "
-                style="position: absolute; top: 0; left: 0;"
-                [style.width.px]="columns()[col.index]"
-                [style.height.px]="rows()[row.index]"
-                [style.transform]="
-                  'translateX(' +
-                  col.start +
-                  'px) translateY(' +
-                  row.start +
-                  'px)'
-                "
-              >
-                <div>Cell {{ row.index }}, {{ col.index }}</div>
-              </div>
-            }
+          @for (cell of gridVirtualizer.getVirtualCells(); track cell.key) {
+            <div
+              #virtualItem
+              [attr.data-colindex]="cell.column.index"
+              [attr.data-rowindex]="cell.row.index"
+              [class]="
+                cell.column.index % 2
+                  ? cell.row.index % 2 === 0
+                    ? 'list-item-odd'
+                    : 'list-item-even'
+                  : cell.row.index % 2
+                    ? 'list-item-odd'
+                    : 'list-item-even'
+              "
+              style="position: absolute; top: 0; left: 0;"
+              [style.width.px]="columns()[cell.column.index]"
+              [style.height.px]="rows()[cell.row.index]"
+              [style.transform]="
+                'translateX(' +
+                cell.column.start +
+                'px) translateY(' +
+                cell.row.start +
+                'px)'
+              "
+            >
+              <div>Cell {{ cell.row.index }}, {{ cell.column.index }}</div>
+            </div>
           }
         </div>
       </div>
@@ -84,25 +82,23 @@ export class GridVirtualizerPadding {
 
   scrollElement = viewChild<ElementRef<HTMLDivElement>>('scrollElement')
 
-  rowVirtualizer = injectVirtualizer(() => ({
+  gridVirtualizer = injectGridVirtualizer(() => ({
     scrollElement: this.scrollElement(),
-    count: this.rows().length,
-    estimateSize: (index) => this.rows()[index]!,
+    rowCount: this.rows().length,
+    columnCount: this.columns().length,
+    estimateRowSize: (index) => this.rows()[index]!,
+    estimateColumnSize: (index) => this.columns()[index]!,
     overscan: 5,
-    paddingStart: 200,
-    paddingEnd: 200,
-    indexAttribute: 'data-rowindex',
-  }))
-
-  columnVirtualizer = injectVirtualizer(() => ({
-    horizontal: true,
-    scrollElement: this.scrollElement(),
-    count: this.columns().length,
-    estimateSize: (index) => this.columns()[index]!,
-    overscan: 5,
-    paddingStart: 200,
-    paddingEnd: 200,
-    indexAttribute: 'data-colindex',
+    rowOptions: {
+      paddingStart: 200,
+      paddingEnd: 200,
+      indexAttribute: 'data-rowindex',
+    },
+    columnOptions: {
+      paddingStart: 200,
+      paddingEnd: 200,
+      indexAttribute: 'data-colindex',
+    },
   }))
 
   virtualItems = viewChildren<ElementRef<HTMLDivElement>>('virtualItem')
@@ -110,8 +106,8 @@ export class GridVirtualizerPadding {
   #measureItems = effect(
     () =>
       this.virtualItems().forEach((el) => {
-        this.rowVirtualizer.measureElement(el.nativeElement)
-        this.columnVirtualizer.measureElement(el.nativeElement)
+        this.gridVirtualizer.rows.measureElement(el.nativeElement)
+        this.gridVirtualizer.columns.measureElement(el.nativeElement)
       }),
     { allowSignalWrites: true },
   )
@@ -2,14 +2,10 @@ import {
   ChangeDetectionStrategy,
   Component,
   ElementRef,
-  computed,
   viewChild,
 } from '@angular/core'
 import { faker } from '@faker-js/faker'
-import {
-  injectVirtualizer,
-  defaultRangeExtractor,
-} from '@tanstack/angular-virtual'
+import { injectVirtualizer } from '@tanstack/angular-virtual'
 
 const groupedNames: Record<string, string[]> = {}
 
@@ -29,8 +25,6 @@ const rows = groups.reduce(
   [],
 )
 const stickyIndexes = groups.map((gn) => rows.findIndex((n) => n === gn))
-const stickyIndexesSet = new Set(stickyIndexes)
-const reversedStickyIndexes = [...stickyIndexes].reverse()
 
 @Component({
   selector: 'app-root',
@@ -45,17 +39,14 @@ const reversedStickyIndexes = [...stickyIndexes].reverse()
         @for (row of virtualizer.getVirtualItems(); track row.index) {
           <div
             [attr.data-index]="row.index"
-            style="top: 0; left: 0; width: 100%; background: #fff"
-            [style.zIndex]="isSticky(row.index) ? 1 : null"
-            [style.borderBottom]="
-              isSticky(row.index) ? '1px solid #ddd' : 'none'
-            "
-            [style.position]="isActiveSticky(row.index) ? 'sticky' : 'absolute'"
+            style="left: 0; width: 100%; background: #fff"
+            [style.zIndex]="row.sticky ? 1 : null"
+            [style.borderBottom]="row.sticky ? '1px solid #ddd' : 'none'"
+            [style.position]="row.activeSticky ? 'sticky' : 'absolute'"
+            [style.top.px]="row.activeSticky ? row.stickyOffset : 0"
             [style.height.px]="row.size"
             [style.transform]="
-              isActiveSticky(row.index)
-                ? null
-                : 'translateY(' + row.start + 'px)'
+              row.activeSticky ? null : 'translateY(' + row.start + 'px)'
             "
           >
             {{ rows[row.index] }}
@@ -75,26 +66,12 @@ const reversedStickyIndexes = [...stickyIndexes].reverse()
 export class AppComponent {
   rows = rows
 
-  isSticky = (index: number) => stickyIndexesSet.has(index)
-
   scrollElement = viewChild<ElementRef<HTMLDivElement>>('scrollElement')
 
   virtualizer = injectVirtualizer(() => ({
     scrollElement: this.scrollElement(),
     count: this.rows.length,
     estimateSize: () => 50,
-    rangeExtractor: (range) => {
-      const next = new Set([
-        reversedStickyIndexes.find((index) => range.startIndex >= index)!,
-        ...defaultRangeExtractor(range),
-      ])
-      return [...next].sort((a, b) => a - b)
-    },
+    stickyIndexes,
   }))
-
-  activeStickyIndex = computed(() => {
-    return this.virtualizer.getVirtualItems()[0]?.index
-  })
-
-  isActiveSticky = (index: number) => this.activeStickyIndex() === index
 }
@@ -5,7 +5,7 @@ import {
   input,
   viewChild,
 } from '@angular/core'
-import { injectVirtualizer } from '@tanstack/angular-virtual'
+import { injectGridVirtualizer } from '@tanstack/angular-virtual'
 
 @Component({
   standalone: true,
@@ -16,45 +16,35 @@ import { injectVirtualizer } from '@tanstack/angular-virtual'
     <div #scrollElement class="list scroll-container">
       <div
         style="position: relative; height: 100%;"
-        [style.width.px]="columnVirtualizer.getTotalSize()"
-        [style.height.px]="rowVirtualizer.getTotalSize()"
+        [style.width.px]="gridVirtualizer.getTotalSize().width"
+        [style.height.px]="gridVirtualizer.getTotalSize().height"
       >
-        @for (
-          row of rowVirtualizer.getVirtualItems();
-          track row.index;
-          let rowEven = $even
-        ) {
-          @for (
-            col of columnVirtualizer.getVirtualItems();
-            track col.index;
-            let colEven = $even
-          ) {
-            <div
-              [attr.data-index]="col.index"
-              [class]="
-                col.index % 2
-                  ? row.index % 2 === 0
-                    ? 'list-item-odd'
-                    : 'list-item-even'
-                  : row.index % 2
-                    ? 'list-item-odd'
-                    : 'list-item-even'
-              "
-              style="position: absolute; top: 0; left: 0;"
-              [style.height.px]="row.size"
-              [style.width.px]="col.size"
-              [style.transform]="
-                'translateX(' +
-                col.start +
-                'px)' +
-                'translateY(' +
-                row.start +
-                'px)'
-              "
-            >
-              Cell {{ row.index }}, {{ col.index }}
-            </div>
-          }
+        @for (cell of gridVirtualizer.getVirtualCells(); track cell.key) {
+          <div
+            [attr.data-index]="cell.column.index"
+            [class]="
+              cell.column.index % 2
+                ? cell.row.index % 2 === 0
+                  ? 'list-item-odd'
+                  : 'list-item-even'
+                : cell.row.index % 2
+                  ? 'list-item-odd'
+                  : 'list-item-even'
+            "
+            style="position: absolute; top: 0; left: 0;"
+            [style.height.px]="cell.row.size"
+            [style.width.px]="cell.column.size"
+            [style.transform]="
+              'translateX(' +
+              cell.column.start +
+              'px)' +
+              'translateY(' +
+              cell.row.start +
+              'px)'
+            "
+          >
+            Cell {{ cell.row.index }}, {{ cell.column.index }}
+          </div>
         }
       </div>
     </div>
@@ -74,18 +64,12 @@ export class GridVirtualizerVariable {
 
   scrollElement = viewChild<ElementRef<HTMLDivElement>>('scrollElement')
 
-  rowVirtualizer = injectVirtualizer(() => ({
+  gridVirtualizer = injectGridVirtualizer(() => ({
     scrollElement: this.scrollElement(),
-    count: 10000,
-    estimateSize: (index) => this.rows()[index]!,
-    overscan: 5,
-  }))
-
-  columnVirtualizer = injectVirtualizer(() => ({
-    horizontal: true,
-    scrollElement: this.scrollElement(),
-    count: 10000,
-    estimateSize: (index) => this.columns()[index]!,
+    rowCount: 10000,
+    columnCount: 10000,
+    estimateRowSize: (index) => this.rows()[index]!,
+    estimateColumnSize: (index) => this.columns()[index]!,
     overscan: 5,
   }))
 }
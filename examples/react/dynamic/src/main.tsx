@@ -2,7 +2,7 @@ import * as React from 'react'
 import { createRoot } from 'react-dom/client'
 import { faker } from '@faker-js/faker'
 
-import { useVirtualizer, useWindowVirtualizer } from '@tanstack/react-virtual'
+import { useGridVirtualizer, useVirtualizer } from '@tanstack/react-virtual'
 
 import './index.css'
 
@@ -177,62 +177,45 @@ function GridVirtualizerDynamic({
 }) {
   const parentRef = React.useRef<HTMLDivElement | null>(null)
 
-  const parentOffsetRef = React.useRef(0)
-
-  React.useLayoutEffect(() => {
-    parentOffsetRef.current = parentRef.current?.offsetTop ?? 0
-  }, [])
-
   const getColumnWidth = (index: number) => columns[index].width
 
-  const virtualizer = useWindowVirtualizer({
-    count: data.length,
-    estimateSize: () => 350,
-    overscan: 5,
-    scrollMargin: parentOffsetRef.current,
-  })
-
-  const columnVirtualizer = useVirtualizer({
-    horizontal: true,
-    count: columns.length,
+  const gridVirtualizer = useGridVirtualizer({
+    rowCount: data.length,
+    columnCount: columns.length,
     getScrollElement: () => parentRef.current,
-    estimateSize: getColumnWidth,
+    estimateRowSize: () => 350,
+    estimateColumnSize: getColumnWidth,
     overscan: 5,
   })
-  const columnItems = columnVirtualizer.getVirtualItems()
+  const columnItems = gridVirtualizer.getVirtualColumns()
+  const { width, height } = gridVirtualizer.getTotalSize()
   const [before, after] =
     columnItems.length > 0
-      ? [
-          columnItems[0].start,
-          columnVirtualizer.getTotalSize() -
-            columnItems[columnItems.length - 1].end,
-        ]
+      ? [columnItems[0].start, width - columnItems[columnItems.length - 1].end]
       : [0, 0]
 
   return (
     <div
       ref={parentRef}
-      style={{ overflowY: 'auto', border: '1px solid #c8c8c8' }}
+      style={{ height: 600, overflow: 'auto', border: '1px solid #c8c8c8' }}
     >
       <div
         style={{
-          height: virtualizer.getTotalSize(),
+          height,
           position: 'relative',
         }}
       >
-        {virtualizer.getVirtualItems().map((row) => {
+        {gridVirtualizer.getVirtualRows().map((row) => {
           return (
             <div
               key={row.key}
               data-index={row.index}
-              ref={virtualizer.measureElement}
+              ref={gridVirtualizer.rows.measureElement}
               style={{
                 position: 'absolute',
                 top: 0,
                 left: 0,
-                transform: `translateY(${
-                  row.start - virtualizer.options.scrollMargin
-                }px)`,
+                transform: `translateY(${row.start}px)`,
                 display: 'flex',
               }}
             >
@@ -3,7 +3,7 @@ import * as ReactDOM from 'react-dom/client'
 
 import './index.css'
 
-import { useVirtualizer } from '@tanstack/react-virtual'
+import { useGridVirtualizer, useVirtualizer } from '@tanstack/react-virtual'
 
 function App() {
   return (
@@ -145,20 +145,16 @@ function ColumnVirtualizerFixed() {
 function GridVirtualizerFixed() {
   const parentRef = React.useRef(null)
 
-  const rowVirtualizer = useVirtualizer({
-    count: 10000,
+  const gridVirtualizer = useGridVirtualizer({
+    rowCount: 10000,
+    columnCount: 10000,
     getScrollElement: () => parentRef.current,
-    estimateSize: () => 35,
+    estimateRowSize: () => 35,
+    estimateColumnSize: () => 100,
     overscan: 5,
   })
 
-  const columnVirtualizer = useVirtualizer({
-    horizontal: true,
-    count: 10000,
-    getScrollElement: () => parentRef.current,
-    estimateSize: () => 100,
-    overscan: 5,
-  })
+  const { width, height } = gridVirtualizer.getTotalSize()
 
   return (
     <>
@@ -173,39 +169,37 @@ function GridVirtualizerFixed() {
       >
         <div
           style={{
-            height: `${rowVirtualizer.getTotalSize()}px`,
-            width: `${columnVirtualizer.getTotalSize()}px`,
+            height: `${height}px`,
+            width: `${width}px`,
             position: 'relative',
           }}
         >
-          {rowVirtualizer.getVirtualItems().map((virtualRow) => (
-            <React.Fragment key={virtualRow.key}>
-              {columnVirtualizer.getVirtualItems().map((virtualColumn) => (
-                <div
-                  key={virtualColumn.key}
-                  className={
-                    virtualColumn.index % 2
-                      ? virtualRow.index % 2 === 0
-                        ? 'ListItemOdd'
-                        : 'ListItemEven'
-                      : virtualRow.index % 2
-                        ? 'ListItemOdd'
-                        : 'ListItemEven'
-                  }
-                  style={{
-                    position: 'absolute',
-                    top: 0,
-                    left: 0,
-                    width: `${virtualColumn.size}px`,
-                    height: `${virtualRow.size}px`,
-                    transform: `translateX(${virtualColumn.start}px) translateY(${virtualRow.start}px)`,
-                  }}
-                >
-                  Cell {virtualRow.index}, {virtualColumn.index}
-                </div>
-              ))}
-            </React.Fragment>
-          ))}
+          {gridVirtualizer
+            .getVirtualCells()
+            .map(({ key, row: virtualRow, column: virtualColumn }) => (
+              <div
+                key={key}
+                className={
+                  virtualColumn.index % 2
+                    ? virtualRow.index % 2 === 0
+                      ? 'ListItemOdd'
+                      : 'ListItemEven'
+                    : virtualRow.index % 2
+                      ? 'ListItemOdd'
+                      : 'ListItemEven'
+                }
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: `${virtualColumn.size}px`,
+                  height: `${virtualRow.size}px`,
+                  transform: `translateX(${virtualColumn.start}px) translateY(${virtualRow.start}px)`,
+                }}
+              >
+                Cell {virtualRow.index}, {virtualColumn.index}
+              </div>
+            ))}
         </div>
       </div>
     </>
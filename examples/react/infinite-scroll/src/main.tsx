@@ -50,30 +50,10 @@ function App() {
     getScrollElement: () => parentRef.current,
     estimateSize: () => 100,
     overscan: 5,
+    reachedThreshold: 5,
+    onEndReached: () => (hasNextPage ? fetchNextPage() : undefined),
   })
 
-  React.useEffect(() => {
-    const [lastItem] = [...rowVirtualizer.getVirtualItems()].reverse()
-
-    if (!lastItem) {
-      return
-    }
-
-    if (
-      lastItem.index >= allRows.length - 1 &&
-      hasNextPage &&
-      !isFetchingNextPage
-    ) {
-      fetchNextPage()
-    }
-  }, [
-    hasNextPage,
-    fetchNextPage,
-    allRows.length,
-    isFetchingNextPage,
-    rowVirtualizer.getVirtualItems(),
-  ])
-
   return (
     <div>
       <p>
@@ -3,8 +3,7 @@ import * as React from 'react'
 import ReactDOM from 'react-dom'
 import { faker } from '@faker-js/faker'
 import { findIndex, groupBy } from 'lodash'
-import { defaultRangeExtractor, useVirtualizer } from '@tanstack/react-virtual'
-import type { Range } from '@tanstack/react-virtual'
+import { useVirtualizer } from '@tanstack/react-virtual'
 
 const groupedNames = groupBy(
   Array.from({ length: 1000 })
@@ -21,38 +20,16 @@ const rows = groups.reduce<Array<string>>(
 const App = () => {
   const parentRef = React.useRef<HTMLDivElement>(null)
 
-  const activeStickyIndexRef = React.useRef(0)
-
   const stickyIndexes = React.useMemo(
     () => groups.map((gn) => findIndex(rows, (n) => n === gn)),
     [],
   )
 
-  const isSticky = (index: number) => stickyIndexes.includes(index)
-
-  const isActiveSticky = (index: number) =>
-    activeStickyIndexRef.current === index
-
   const rowVirtualizer = useVirtualizer({
     count: rows.length,
     estimateSize: () => 50,
     getScrollElement: () => parentRef.current,
-    rangeExtractor: React.useCallback(
-      (range: Range) => {
-        activeStickyIndexRef.current =
-          [...stickyIndexes]
-            .reverse()
-            .find((index) => range.startIndex >= index) ?? 0
-
-        const next = new Set([
-          activeStickyIndexRef.current,
-          ...defaultRangeExtractor(range),
-        ])
-
-        return [...next].sort((a, b) => a - b)
-      },
-      [stickyIndexes],
-    ),
+    stickyIndexes,
   })
 
   return (
@@ -78,22 +55,23 @@ const App = () => {
               key={virtualRow.index}
               className={'ListItem'}
               style={{
-                ...(isSticky(virtualRow.index)
+                ...(virtualRow.sticky
                   ? {
                       background: '#fff',
                       borderBottom: '1px solid #ddd',
                       zIndex: 1,
                     }
                   : {}),
-                ...(isActiveSticky(virtualRow.index)
+                ...(virtualRow.activeSticky
                   ? {
                       position: 'sticky',
+                      top: virtualRow.stickyOffset,
                     }
                   : {
                       position: 'absolute',
+                      top: 0,
                       transform: `translateY(${virtualRow.start}px)`,
                     }),
-                top: 0,
                 left: 0,
                 width: '100%',
                 height: `${virtualRow.size}px`,
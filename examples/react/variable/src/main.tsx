@@ -3,7 +3,7 @@ import ReactDOM from 'react-dom'
 
 import './index.css'
 
-import { useVirtualizer } from '@tanstack/react-virtual'
+import { useGridVirtualizer, useVirtualizer } from '@tanstack/react-virtual'
 
 const rows = new Array(10000)
   .fill(true)
@@ -166,20 +166,16 @@ function GridVirtualizerVariable({
 }) {
   const parentRef = React.useRef<HTMLDivElement>(null)
 
-  const rowVirtualizer = useVirtualizer({
-    count: rows.length,
+  const gridVirtualizer = useGridVirtualizer({
+    rowCount: rows.length,
+    columnCount: columns.length,
     getScrollElement: () => parentRef.current,
-    estimateSize: (i) => rows[i],
+    estimateRowSize: (i) => rows[i],
+    estimateColumnSize: (i) => columns[i],
     overscan: 5,
   })
 
-  const columnVirtualizer = useVirtualizer({
-    horizontal: true,
-    count: columns.length,
-    getScrollElement: () => parentRef.current,
-    estimateSize: (i) => columns[i],
-    overscan: 5,
-  })
+  const { width, height } = gridVirtualizer.getTotalSize()
 
   return (
     <>
@@ -194,39 +190,37 @@ function GridVirtualizerVariable({
       >
         <div
           style={{
-            height: `${rowVirtualizer.getTotalSize()}px`,
-            width: `${columnVirtualizer.getTotalSize()}px`,
+            height: `${height}px`,
+            width: `${width}px`,
             position: 'relative',
           }}
         >
-          {rowVirtualizer.getVirtualItems().map((virtualRow) => (
-            <React.Fragment key={virtualRow.index}>
-              {columnVirtualizer.getVirtualItems().map((virtualColumn) => (
-                <div
-                  key={virtualColumn.index}
-                  className={
-                    virtualColumn.index % 2
-                      ? virtualRow.index % 2 === 0
-                        ? 'ListItemOdd'
-                        : 'ListItemEven'
-                      : virtualRow.index % 2
-                        ? 'ListItemOdd'
-                        : 'ListItemEven'
-                  }
-                  style={{
-                    position: 'absolute',
-                    top: 0,
-                    left: 0,
-                    width: `${columns[virtualColumn.index]}px`,
-                    height: `${rows[virtualRow.index]}px`,
-                    transform: `translateX(${virtualColumn.start}px) translateY(${virtualRow.start}px)`,
-                  }}
-                >
-                  Cell {virtualRow.index}, {virtualColumn.index}
-                </div>
-              ))}
-            </React.Fragment>
-          ))}
+          {gridVirtualizer
+            .getVirtualCells()
+            .map(({ key, row: virtualRow, column: virtualColumn }) => (
+              <div
+                key={key}
+                className={
+                  virtualColumn.index % 2
+                    ? virtualRow.index % 2 === 0
+                      ? 'ListItemOdd'
+                      : 'ListItemEven'
+                    : virtualRow.index % 2
+                      ? 'ListItemOdd'
+                      : 'ListItemEven'
+                }
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  width: `${columns[virtualColumn.index]}px`,
+                  height: `${rows[virtualRow.index]}px`,
+                  transform: `translateX(${virtualColumn.start}px) translateY(${virtualRow.start}px)`,
+                }}
+              >
+                Cell {virtualRow.index}, {virtualColumn.index}
+              </div>
+            ))}
         </div>
       </div>
     </>
@@ -12,7 +12,7 @@ function Example() {
     count: 10000,
     estimateSize: () => 35,
     overscan: 5,
-    scrollMargin: listRef.current?.offsetTop ?? 0,
+    getScrollMarginElement: () => listRef.current,
   })
 
   return (
@@ -9,18 +9,25 @@ import {
   untracked,
 } from '@angular/core'
 import {
+  GridVirtualizer,
   Virtualizer,
   elementScroll,
   observeElementOffset,
   observeElementRect,
+  observeGridElementOffset,
+  observeGridElementRect,
   observeWindowOffset,
   observeWindowRect,
   windowScroll,
 } from '@tanstack/virtual-core'
-import { proxyVirtualizer } from './proxy'
+import { proxyGridVirtualizer, proxyVirtualizer } from './proxy'
 import type { ElementRef, Signal } from '@angular/core'
-import type { PartialKeys, VirtualizerOptions } from '@tanstack/virtual-core'
-import type { AngularVirtualizer } from './types'
+import type {
+  GridVirtualizerOptions,
+  PartialKeys,
+  VirtualizerOptions,
+} from '@tanstack/virtual-core'
+import type { AngularGridVirtualizer, AngularVirtualizer } from './types'
 
 export * from '@tanstack/virtual-core'
 export * from './types'
@@ -139,3 +146,89 @@ export function injectWindowVirtualizer<TItemElement extends Element>(
   })
   return createVirtualizerBase<Window, TItemElement>(resolvedOptions)
 }
+
+export function injectGridVirtualizer<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+>(
+  options: () => PartialKeys<
+    Omit<
+      GridVirtualizerOptions<TScrollElement, TItemElement>,
+      'getScrollElement'
+    >,
+    'observeElementRect' | 'observeElementOffset' | 'scrollToFn'
+  > & {
+    scrollElement: ElementRef<TScrollElement> | TScrollElement | undefined
+  },
+): AngularGridVirtualizer<TScrollElement, TItemElement> {
+  const resolvedOptions = computed(
+    (): GridVirtualizerOptions<TScrollElement, TItemElement> => ({
+      observeElementRect: observeGridElementRect,
+      observeElementOffset: observeGridElementOffset,
+      scrollToFn: elementScroll,
+      getScrollElement: () => {
+        const elementOrRef = options().scrollElement
+        return (
+          (isElementRef(elementOrRef)
+            ? elementOrRef.nativeElement
+            : elementOrRef) ?? null
+        )
+      },
+      ...options(),
+    }),
+  )
+
+  let virtualizer: GridVirtualizer<TScrollElement, TItemElement>
+  function lazyInit() {
+    virtualizer ??= new GridVirtualizer(resolvedOptions())
+    return virtualizer
+  }
+
+  const virtualizerSignal = signal(virtualizer!, { equal: () => false })
+
+  // two-way sync options
+  effect(
+    () => {
+      const _options = resolvedOptions()
+      lazyInit()
+      virtualizerSignal.set(virtualizer)
+      virtualizer.setOptions({
+        ..._options,
+        onChange: (instance, sync) => {
+          // update virtualizerSignal so that dependent computeds recompute.
+          virtualizerSignal.set(instance)
+          _options.onChange?.(instance, sync)
+        },
+      })
+      // update virtualizerSignal so that dependent computeds recompute.
+      virtualizerSignal.set(virtualizer)
+    },
+    { allowSignalWrites: true },
+  )
+
+  const scrollElement = computed(() => resolvedOptions().getScrollElement())
+  // let the virtualizer know when the scroll element is changed
+  effect(
+    () => {
+      const el = scrollElement()
+      if (el) {
+        untracked(virtualizerSignal)._willUpdate()
+      }
+    },
+    { allowSignalWrites: true },
+  )
+
+  let cleanup: (() => void) | undefined
+  afterNextRender(
+    () => {
+      cleanup = (virtualizer ?? lazyInit())._didMount()
+    },
+    {
+      phase: AfterRenderPhase.Read,
+    },
+  )
+
+  inject(DestroyRef).onDestroy(() => cleanup?.())
+
+  return proxyGridVirtualizer(virtualizerSignal, lazyInit)
+}
@@ -1,7 +1,7 @@
 import { computed, untracked } from '@angular/core'
 import type { Signal, WritableSignal } from '@angular/core'
-import type { Virtualizer } from '@tanstack/virtual-core'
-import type { AngularVirtualizer } from './types'
+import type { GridVirtualizer, Virtualizer } from '@tanstack/virtual-core'
+import type { AngularGridVirtualizer, AngularVirtualizer } from './types'
 
 export function proxyVirtualizer<
   V extends Virtualizer<any, any>,
@@ -30,15 +30,21 @@ export function proxyVirtualizer<
       if (
         typeof property === 'string' &&
         [
+          'getFirstFullyVisibleIndex',
+          'getLastFullyVisibleIndex',
           'getTotalSize',
           'getVirtualItems',
+          'getVisibleItems',
+          'isAtEnd',
           'isScrolling',
+          'isScrollingFast',
           'options',
           'range',
           'scrollDirection',
           'scrollElement',
           'scrollOffset',
           'scrollRect',
+          'scrollVelocity',
           'measureElementCache',
           'measurementsCache',
         ].includes(property)
@@ -58,8 +64,12 @@ export function proxyVirtualizer<
       if (
         typeof property === 'string' &&
         [
+          'getActiveStickyIndex',
+          'getLanes',
           'getOffsetForAlignment',
           'getOffsetForIndex',
+          'getSectionForIndex',
+          'getSectionRange',
           'getVirtualItemForOffset',
           'indexFromElement',
         ].includes(property)
@@ -89,6 +99,73 @@ export function proxyVirtualizer<
   }) as unknown as AngularVirtualizer<S, I>
 }
 
+export function proxyGridVirtualizer<
+  V extends GridVirtualizer<any, any>,
+  S extends Element | Window = V extends GridVirtualizer<infer U, any>
+    ? U
+    : never,
+  I extends Element = V extends GridVirtualizer<any, infer U> ? U : never,
+>(
+  virtualizerSignal: WritableSignal<V>,
+  lazyInit: () => V,
+): AngularGridVirtualizer<S, I> {
+  return new Proxy(virtualizerSignal, {
+    apply() {
+      return virtualizerSignal()
+    },
+    get(target, property) {
+      const untypedTarget = target as any
+      if (untypedTarget[property]) {
+        return untypedTarget[property]
+      }
+      let virtualizer = untracked(virtualizerSignal)
+      if (virtualizer == null) {
+        virtualizer = lazyInit()
+        untracked(() => virtualizerSignal.set(virtualizer))
+      }
+
+      // Create computed signals for each property that represents a reactive value
+      if (
+        typeof property === 'string' &&
+        [
+          'getTotalSize',
+          'getVirtualCells',
+          'getVirtualColumns',
+          'getVirtualRows',
+          'isScrolling',
+          'options',
+          'scrollElement',
+          'scrollOffset',
+        ].includes(property)
+      ) {
+        const isFunction =
+          typeof virtualizer[property as keyof V] === 'function'
+        Object.defineProperty(untypedTarget, property, {
+          value: isFunction
+            ? computed(() => (target()[property as keyof V] as Function)())
+            : computed(() => target()[property as keyof V]),
+          configurable: true,
+          enumerable: true,
+        })
+      }
+
+      return untypedTarget[property] || virtualizer[property as keyof V]
+    },
+    has(_, property: string) {
+      return !!untracked(virtualizerSignal)[property as keyof V]
+    },
+    ownKeys() {
+      return Reflect.ownKeys(untracked(virtualizerSignal))
+    },
+    getOwnPropertyDescriptor() {
+      return {
+        enumerable: true,
+        configurable: true,
+      }
+    },
+  }) as unknown as AngularGridVirtualizer<S, I>
+}
+
 function toComputed<V extends Virtualizer<any, any>>(
   signal: Signal<V>,
   fn: Function,
@@ -1,5 +1,5 @@
 import type { Signal } from '@angular/core'
-import type { Virtualizer } from '@tanstack/virtual-core'
+import type { GridVirtualizer, Virtualizer } from '@tanstack/virtual-core'
 
 export type AngularVirtualizer<
   TScrollElement extends Element | Window,
@@ -8,13 +8,16 @@ export type AngularVirtualizer<
   Virtualizer<TScrollElement, TItemElement>,
   | 'getTotalSize'
   | 'getVirtualItems'
+  | 'isAtEnd'
   | 'isScrolling'
+  | 'isScrollingFast'
   | 'options'
   | 'range'
   | 'scrollDirection'
   | 'scrollElement'
   | 'scrollOffset'
   | 'scrollRect'
+  | 'scrollVelocity'
 > & {
   getTotalSize: Signal<
     ReturnType<Virtualizer<TScrollElement, TItemElement>['getTotalSize']>
@@ -22,7 +25,11 @@ export type AngularVirtualizer<
   getVirtualItems: Signal<
     ReturnType<Virtualizer<TScrollElement, TItemElement>['getVirtualItems']>
   >
+  isAtEnd: Signal<Virtualizer<TScrollElement, TItemElement>['isAtEnd']>
   isScrolling: Signal<Virtualizer<TScrollElement, TItemElement>['isScrolling']>
+  isScrollingFast: Signal<
+    Virtualizer<TScrollElement, TItemElement>['isScrollingFast']
+  >
   options: Signal<Virtualizer<TScrollElement, TItemElement>['options']>
   range: Signal<Virtualizer<TScrollElement, TItemElement>['range']>
   scrollDirection: Signal<
@@ -35,4 +42,49 @@ export type AngularVirtualizer<
     Virtualizer<TScrollElement, TItemElement>['scrollOffset']
   >
   scrollRect: Signal<Virtualizer<TScrollElement, TItemElement>['scrollRect']>
+  scrollVelocity: Signal<
+    Virtualizer<TScrollElement, TItemElement>['scrollVelocity']
+  >
+}
+
+export type AngularGridVirtualizer<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> = Omit<
+  GridVirtualizer<TScrollElement, TItemElement>,
+  | 'getTotalSize'
+  | 'getVirtualCells'
+  | 'getVirtualColumns'
+  | 'getVirtualRows'
+  | 'isScrolling'
+  | 'options'
+  | 'scrollElement'
+  | 'scrollOffset'
+> & {
+  getTotalSize: Signal<
+    ReturnType<GridVirtualizer<TScrollElement, TItemElement>['getTotalSize']>
+  >
+  getVirtualCells: Signal<
+    ReturnType<
+      GridVirtualizer<TScrollElement, TItemElement>['getVirtualCells']
+    >
+  >
+  getVirtualColumns: Signal<
+    ReturnType<
+      GridVirtualizer<TScrollElement, TItemElement>['getVirtualColumns']
+    >
+  >
+  getVirtualRows: Signal<
+    ReturnType<GridVirtualizer<TScrollElement, TItemElement>['getVirtualRows']>
+  >
+  isScrolling: Signal<
+    GridVirtualizer<TScrollElement, TItemElement>['isScrolling']
+  >
+  options: Signal<GridVirtualizer<TScrollElement, TItemElement>['options']>
+  scrollElement: Signal<
+    GridVirtualizer<TScrollElement, TItemElement>['scrollElement']
+  >
+  scrollOffset: Signal<
+    GridVirtualizer<TScrollElement, TItemElement>['scrollOffset']
+  >
 }
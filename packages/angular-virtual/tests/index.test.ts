@@ -0,0 +1,65 @@
+import { signal } from '@angular/core'
+import { expect, expectTypeOf, test, vi } from 'vitest'
+import { Virtualizer } from '@tanstack/virtual-core'
+import { proxyVirtualizer } from '../src/proxy'
+import type { Signal } from '@angular/core'
+
+test('should expose fast scrolling state as signals', () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    fastScrollVelocity: 1,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+  })
+  virtualizer._willUpdate()
+  const virtualizerSignal = signal(virtualizer, { equal: () => false })
+  const proxy = proxyVirtualizer(virtualizerSignal, () => virtualizer)
+
+  expectTypeOf(proxy.isScrollingFast).toEqualTypeOf<Signal<boolean>>()
+  expectTypeOf(proxy.scrollVelocity).toEqualTypeOf<Signal<number>>()
+  expect(proxy.isScrollingFast()).toBe(false)
+  expect(proxy.scrollVelocity()).toBe(0)
+
+  vi.useFakeTimers()
+  onOffset(0, true)
+  vi.advanceTimersByTime(10)
+  onOffset(1000, true)
+  virtualizerSignal.set(virtualizer)
+  vi.useRealTimers()
+
+  expect(proxy.isScrollingFast()).toBe(true)
+  expect(proxy.scrollVelocity()).toBeGreaterThan(1)
+})
+
+test('should expose isAtEnd as a signal', () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const virtualizer = new Virtualizer({
+    count: 20,
+    anchorToEnd: true,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+  })
+  virtualizer._willUpdate()
+  const virtualizerSignal = signal(virtualizer, { equal: () => false })
+  const proxy = proxyVirtualizer(virtualizerSignal, () => virtualizer)
+
+  expectTypeOf(proxy.isAtEnd).toEqualTypeOf<Signal<boolean>>()
+  expect(proxy.isAtEnd()).toBe(true)
+
+  onOffset(0, false)
+  virtualizerSignal.set(virtualizer)
+  expect(proxy.isAtEnd()).toBe(false)
+})
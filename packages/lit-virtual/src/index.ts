@@ -1,14 +1,21 @@
 import {
+  GridVirtualizer,
   Virtualizer,
   elementScroll,
   observeElementOffset,
   observeElementRect,
+  observeGridElementOffset,
+  observeGridElementRect,
   observeWindowOffset,
   observeWindowRect,
   windowScroll,
 } from '@tanstack/virtual-core'
 import type { ReactiveController, ReactiveControllerHost } from 'lit'
-import type { PartialKeys, VirtualizerOptions } from '@tanstack/virtual-core'
+import type {
+  GridVirtualizerOptions,
+  PartialKeys,
+  VirtualizerOptions,
+} from '@tanstack/virtual-core'
 
 class VirtualizerControllerBase<
   TScrollElement extends Element | Window,
@@ -98,3 +105,56 @@ export class WindowVirtualizerController<
     })
   }
 }
+
+export class GridVirtualizerController<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+> implements ReactiveController
+{
+  host: ReactiveControllerHost
+
+  private readonly virtualizer: GridVirtualizer<TScrollElement, TItemElement>
+
+  private cleanup: () => void = () => {}
+
+  constructor(
+    host: ReactiveControllerHost,
+    options: PartialKeys<
+      GridVirtualizerOptions<TScrollElement, TItemElement>,
+      'observeElementRect' | 'observeElementOffset' | 'scrollToFn'
+    >,
+  ) {
+    ;(this.host = host).addController(this)
+
+    const resolvedOptions: GridVirtualizerOptions<
+      TScrollElement,
+      TItemElement
+    > = {
+      observeElementRect: observeGridElementRect,
+      observeElementOffset: observeGridElementOffset,
+      scrollToFn: elementScroll,
+      ...options,
+      onChange: (instance, sync) => {
+        this.host.updateComplete.then(() => this.host.requestUpdate())
+        options.onChange?.(instance, sync)
+      },
+    }
+    this.virtualizer = new GridVirtualizer(resolvedOptions)
+  }
+
+  public getVirtualizer() {
+    return this.virtualizer
+  }
+
+  async hostConnected() {
+    this.cleanup = this.virtualizer._didMount()
+  }
+
+  hostUpdated() {
+    this.virtualizer._willUpdate()
+  }
+
+  hostDisconnected() {
+    this.cleanup()
+  }
+}
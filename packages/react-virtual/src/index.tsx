@@ -1,15 +1,22 @@
 import * as React from 'react' // 导入 React 库
 import { flushSync } from 'react-dom' // 导入 react-dom 的 flushSync，用于同步更新 DOM
 import {
+  GridVirtualizer, // 导入核心的 GridVirtualizer 类
   Virtualizer, // 导入核心的 Virtualizer 类
   elementScroll, // 导入用于元素滚动的 scrollToFn 实现
   observeElementOffset, // 导入观察元素滚动偏移的函数
   observeElementRect, // 导入观察元素尺寸的函数
+  observeGridElementOffset, // 导入同时观察网格两个方向滚动偏移的函数
+  observeGridElementRect, // 导入观察网格滚动容器尺寸的函数
   observeWindowOffset, // 导入观察窗口滚动偏移的函数
   observeWindowRect, // 导入观察窗口尺寸的函数
   windowScroll, // 导入用于窗口滚动的 scrollToFn 实现
 } from '@tanstack/virtual-core' // 从核心库导入
-import type { PartialKeys, VirtualizerOptions } from '@tanstack/virtual-core' // 导入核心库的类型定义
+import type {
+  GridVirtualizerOptions,
+  PartialKeys,
+  VirtualizerOptions,
+} from '@tanstack/virtual-core' // 导入核心库的类型定义
 
 // 重新导出所有来自核心库的内容，这样使用者可以直接从 react-virtual 导入
 export * from '@tanstack/virtual-core'
@@ -145,3 +152,61 @@ export function useWindowVirtualizer<TItemElement extends Element>(
     ...options, // 合并用户传入的选项
   })
 }
+
+/**
+ * 用于二维网格 (行 × 列) 虚拟化的 React Hook。
+ * 它创建一个 GridVirtualizer 实例，只在滚动容器上注册一次尺寸与滚动监听，
+ * 同时跟踪 scrollTop 和 scrollLeft。
+ *
+ * @template TScrollElement - 滚动容器元素的类型 (必须是 Element 的子类)。
+ * @template TItemElement - 单元格元素的类型。
+ * @param options - GridVirtualizer 的配置选项，观察器和滚动函数有默认实现。
+ * @returns 返回配置好的 GridVirtualizer 实例。
+ */
+export function useGridVirtualizer<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+>(
+  options: PartialKeys<
+    GridVirtualizerOptions<TScrollElement, TItemElement>,
+    'observeElementRect' | 'observeElementOffset' | 'scrollToFn' // 这些属性变为可选
+  >,
+): GridVirtualizer<TScrollElement, TItemElement> {
+  // 与 useVirtualizerBase 相同的强制重新渲染机制
+  const rerender = React.useReducer(() => ({}), {})[1]
+
+  const resolvedOptions: GridVirtualizerOptions<TScrollElement, TItemElement> =
+    {
+      observeElementRect: observeGridElementRect, // 使用核心库提供的网格尺寸观察器
+      observeElementOffset: observeGridElementOffset, // 使用核心库提供的网格偏移观察器
+      scrollToFn: elementScroll, // 每个方向分别调用元素滚动函数
+      ...options, // 合并用户传入的选项
+      onChange: (instance, sync) => {
+        // 滚动过程中同步刷新，其余情况异步更新
+        if (sync) {
+          flushSync(rerender)
+        } else {
+          rerender()
+        }
+        options.onChange?.(instance, sync)
+      },
+    }
+
+  // 只创建一次 GridVirtualizer 实例
+  const [instance] = React.useState(
+    () => new GridVirtualizer<TScrollElement, TItemElement>(resolvedOptions),
+  )
+
+  // 每次渲染时同步最新配置
+  instance.setOptions(resolvedOptions)
+
+  useIsomorphicLayoutEffect(() => {
+    return instance._didMount()
+  }, [])
+
+  useIsomorphicLayoutEffect(() => {
+    return instance._willUpdate()
+  })
+
+  return instance
+}
@@ -1,8 +1,11 @@
 import {
+  GridVirtualizer,
   Virtualizer,
   elementScroll,
   observeElementOffset,
   observeElementRect,
+  observeGridElementOffset,
+  observeGridElementRect,
   observeWindowOffset,
   observeWindowRect,
   windowScroll,
@@ -16,7 +19,12 @@ import {
   onMount,
 } from 'solid-js'
 import { createStore, reconcile } from 'solid-js/store'
-import type { PartialKeys, VirtualizerOptions } from '@tanstack/virtual-core'
+import type {
+  GridVirtualizerOptions,
+  PartialKeys,
+  VirtualCell,
+  VirtualizerOptions,
+} from '@tanstack/virtual-core'
 
 export * from '@tanstack/virtual-core'
 
@@ -132,3 +140,79 @@ export function createWindowVirtualizer<TItemElement extends Element>(
     ),
   )
 }
+
+export function createGridVirtualizer<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+>(
+  options: PartialKeys<
+    GridVirtualizerOptions<TScrollElement, TItemElement>,
+    'observeElementRect' | 'observeElementOffset' | 'scrollToFn'
+  >,
+): GridVirtualizer<TScrollElement, TItemElement> {
+  const resolvedOptions: GridVirtualizerOptions<TScrollElement, TItemElement> =
+    mergeProps(
+      {
+        observeElementRect: observeGridElementRect,
+        observeElementOffset: observeGridElementOffset,
+        scrollToFn: elementScroll,
+      },
+      options,
+    )
+
+  const instance = new GridVirtualizer<TScrollElement, TItemElement>(
+    resolvedOptions,
+  )
+
+  const [virtualCells, setVirtualCells] = createStore<Array<VirtualCell>>(
+    instance.getVirtualCells(),
+  )
+  const [totalSize, setTotalSize] = createSignal(instance.getTotalSize())
+
+  const handler = {
+    get(
+      target: GridVirtualizer<TScrollElement, TItemElement>,
+      prop: keyof GridVirtualizer<TScrollElement, TItemElement>,
+    ) {
+      switch (prop) {
+        case 'getVirtualCells':
+          return () => virtualCells
+        case 'getTotalSize':
+          return () => totalSize()
+        default:
+          return Reflect.get(target, prop)
+      }
+    },
+  }
+
+  const virtualizer = new Proxy(instance, handler)
+
+  onMount(() => {
+    const cleanup = virtualizer._didMount()
+    virtualizer._willUpdate()
+    onCleanup(cleanup)
+  })
+
+  createComputed(() => {
+    virtualizer.setOptions(
+      mergeProps(resolvedOptions, options, {
+        onChange: (
+          instance: GridVirtualizer<TScrollElement, TItemElement>,
+          sync: boolean,
+        ) => {
+          instance._willUpdate()
+          setVirtualCells(
+            reconcile(instance.getVirtualCells(), {
+              key: 'key',
+            }),
+          )
+          setTotalSize(instance.getTotalSize())
+          options.onChange?.(instance, sync)
+        },
+      }),
+    )
+    virtualizer.measure()
+  })
+
+  return virtualizer
+}
@@ -1,14 +1,21 @@
 import {
+  GridVirtualizer,
   Virtualizer,
   elementScroll,
   observeElementOffset,
   observeElementRect,
+  observeGridElementOffset,
+  observeGridElementRect,
   observeWindowOffset,
   observeWindowRect,
   windowScroll,
 } from '@tanstack/virtual-core'
 import { derived, writable } from 'svelte/store'
-import type { PartialKeys, VirtualizerOptions } from '@tanstack/virtual-core'
+import type {
+  GridVirtualizerOptions,
+  PartialKeys,
+  VirtualizerOptions,
+} from '@tanstack/virtual-core'
 import type { Readable, Writable } from 'svelte/store'
 
 export * from '@tanstack/virtual-core'
@@ -22,6 +29,15 @@ export type SvelteVirtualizer<
   ) => void
 }
 
+export type SvelteGridVirtualizer<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> = Omit<GridVirtualizer<TScrollElement, TItemElement>, 'setOptions'> & {
+  setOptions: (
+    options: Partial<GridVirtualizerOptions<TScrollElement, TItemElement>>,
+  ) => void
+}
+
 function createVirtualizerBase<
   TScrollElement extends Element | Window,
   TItemElement extends Element,
@@ -100,3 +116,58 @@ export function createWindowVirtualizer<TItemElement extends Element>(
     ...options,
   })
 }
+
+export function createGridVirtualizer<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+>(
+  options: PartialKeys<
+    GridVirtualizerOptions<TScrollElement, TItemElement>,
+    'observeElementRect' | 'observeElementOffset' | 'scrollToFn'
+  >,
+): Readable<SvelteGridVirtualizer<TScrollElement, TItemElement>> {
+  const initialOptions: GridVirtualizerOptions<TScrollElement, TItemElement> =
+    {
+      observeElementRect: observeGridElementRect,
+      observeElementOffset: observeGridElementOffset,
+      scrollToFn: elementScroll,
+      ...options,
+    }
+  const virtualizer = new GridVirtualizer(initialOptions)
+  const originalSetOptions = virtualizer.setOptions
+
+  // eslint-disable-next-line prefer-const
+  let virtualizerWritable: Writable<
+    GridVirtualizer<TScrollElement, TItemElement>
+  >
+
+  const setOptions = (
+    options: Partial<GridVirtualizerOptions<TScrollElement, TItemElement>>,
+  ) => {
+    const resolvedOptions = {
+      ...virtualizer.options,
+      ...options,
+      onChange: options.onChange,
+    }
+    originalSetOptions({
+      ...resolvedOptions,
+      onChange: (
+        instance: GridVirtualizer<TScrollElement, TItemElement>,
+        sync: boolean,
+      ) => {
+        virtualizerWritable.set(instance)
+        resolvedOptions.onChange?.(instance, sync)
+      },
+    })
+    virtualizer._willUpdate()
+  }
+
+  virtualizerWritable = writable(virtualizer, () => {
+    setOptions(initialOptions)
+    return virtualizer._didMount()
+  })
+
+  return derived(virtualizerWritable, (instance) =>
+    Object.assign(instance, { setOptions }),
+  )
+}
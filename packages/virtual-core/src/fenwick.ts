@@ -0,0 +1,76 @@
+/**
+ * Binary indexed (Fenwick) tree over item sizes.
+ * Supports O(log n) point updates, prefix sums and offset lookups,
+ * which lets a single resize avoid rebuilding every item after it.
+ */
+export class FenwickTree {
+  /** Number of values stored in the tree */
+  readonly length: number
+  private values: Float64Array
+  private tree: Float64Array
+  private highestStep: number
+
+  /**
+   * Builds the tree in O(n) from the initial values.
+   * @param values Initial value for each index
+   */
+  constructor(values: Float64Array) {
+    this.length = values.length
+    this.values = values
+    this.tree = new Float64Array(values.length + 1)
+
+    for (let i = 1; i <= this.length; i++) {
+      this.tree[i] += values[i - 1]!
+      const parent = i + (i & -i)
+      if (parent <= this.length) {
+        this.tree[parent] += this.tree[i]!
+      }
+    }
+
+    let step = 1
+    while (step * 2 <= this.length) step *= 2
+    this.highestStep = step
+  }
+
+  /** Returns the value stored at `index` */
+  get = (index: number) => this.values[index]!
+
+  /** Replaces the value stored at `index` */
+  set = (index: number, value: number) => {
+    const delta = value - this.values[index]!
+    if (delta === 0) return
+    this.values[index] = value
+    for (let i = index + 1; i <= this.length; i += i & -i) {
+      this.tree[i] += delta
+    }
+  }
+
+  /** Returns the sum of the values in `[0, index)` */
+  prefixSum = (index: number) => {
+    let sum = 0
+    for (let i = Math.min(index, this.length); i > 0; i -= i & -i) {
+      sum += this.tree[i]!
+    }
+    return sum
+  }
+
+  /** Returns the sum of all values */
+  total = () => this.prefixSum(this.length)
+
+  /**
+   * Finds the last index whose prefix sum is lower than or equal to `value`,
+   * i.e. the index of the item covering that offset. Returns 0 if none does.
+   */
+  search = (value: number) => {
+    let position = 0
+    let remaining = value
+    for (let step = this.highestStep; step > 0; step >>= 1) {
+      const next = position + step
+      if (next <= this.length && this.tree[next]! <= remaining) {
+        position = next
+        remaining -= this.tree[next]!
+      }
+    }
+    return Math.max(0, Math.min(position, this.length - 1))
+  }
+}
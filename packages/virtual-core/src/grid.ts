@@ -0,0 +1,499 @@
+import { addEventListenerOptions, supportsScrollend } from './scrollEvents'
+import { debounce } from './utils'
+import { observeElementRect, observeWindowRect } from './observers'
+import { Virtualizer } from './virtualizer'
+import type { Rect } from './observers'
+import type {
+  ScrollToOptions,
+  VirtualItem,
+  VirtualizerOptions,
+} from './virtualizer'
+
+/** Scroll offsets of a grid along both axes */
+export interface GridOffset {
+  top: number
+  left: number
+}
+
+/** Represents a rendered cell of a GridVirtualizer */
+export interface VirtualCell {
+  key: string // Unique key combining the row and column keys
+  row: VirtualItem // Row the cell belongs to
+  column: VirtualItem // Column the cell belongs to
+}
+
+/** Options shared by the row and column virtualizers of a grid */
+type GridAxisOptions<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> = Partial<
+  Omit<
+    VirtualizerOptions<TScrollElement, TItemElement>,
+    | 'count'
+    | 'estimateSize'
+    | 'getScrollElement'
+    | 'horizontal'
+    | 'observeElementRect'
+    | 'observeElementOffset'
+    | 'onChange'
+    | 'scrollToFn'
+    | 'initialOffset'
+    | 'initialRect'
+  >
+>
+
+/**
+ * Core options for creating a GridVirtualizer instance.
+ */
+export interface GridVirtualizerOptions<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> {
+  /** Total number of rows [required] */
+  rowCount: number
+  /** Total number of columns [required] */
+  columnCount: number
+  /** Function returning the scroll element [required] */
+  getScrollElement: () => TScrollElement | null
+  /** Function estimating row height (px) [required] */
+  estimateRowSize: (index: number) => number
+  /** Function estimating column width (px) [required] */
+  estimateColumnSize: (index: number) => number
+  /** Function performing scrolling, called once per axis [required] */
+  scrollToFn: NonNullable<
+    VirtualizerOptions<TScrollElement, TItemElement>['scrollToFn']
+  >
+  /** Function observing the scroll element's rect [required] */
+  observeElementRect: (
+    instance: GridVirtualizer<TScrollElement, TItemElement>,
+    cb: (rect: Rect) => void,
+  ) => void | (() => void)
+  /** Function observing both scroll offsets [required] */
+  observeElementOffset: (
+    instance: GridVirtualizer<TScrollElement, TItemElement>,
+    cb: (offset: GridOffset, isScrolling: boolean) => void,
+  ) => void | (() => void)
+  /** Callback when grid state changes */
+  onChange?: (
+    instance: GridVirtualizer<TScrollElement, TItemElement>,
+    sync: boolean,
+  ) => void
+  /** Number of rows and columns to render outside the viewport. @default 1 */
+  overscan?: number
+  /** Enable/disable the grid. @default true */
+  enabled?: boolean
+  /** Initial rect for the scroll element */
+  initialRect?: Rect
+  /** Initial scroll offsets or a function returning them */
+  initialOffset?: GridOffset | (() => GridOffset)
+  /** Delay (ms) to detect scroll end if 'scrollend' isn't used. @default 150 */
+  isScrollingResetDelay?: number
+  /** Use native 'scrollend' event if available. @default false */
+  useScrollendEvent?: boolean
+  /** Right-to-left mode. @default false */
+  isRtl?: boolean
+  /** Use requestAnimationFrame with ResizeObserver callback. @default false */
+  useAnimationFrameWithResizeObserver?: boolean
+  /** Extra options for the row virtualizer (gap, padding, keys, ...) */
+  rowOptions?: GridAxisOptions<TScrollElement, TItemElement>
+  /** Extra options for the column virtualizer (gap, padding, keys, ...) */
+  columnOptions?: GridAxisOptions<TScrollElement, TItemElement>
+}
+
+/** Observes the rect of an Element used as a grid scroll element */
+export const observeGridElementRect = <T extends Element>(
+  instance: GridVirtualizer<T, any>,
+  cb: (rect: Rect) => void,
+) => observeElementRect(instance.rows, cb)
+
+/** Observes the rect of the Window used as a grid scroll element */
+export const observeGridWindowRect = (
+  instance: GridVirtualizer<Window, any>,
+  cb: (rect: Rect) => void,
+) => observeWindowRect(instance.rows, cb)
+
+/** Callback type for observing both scroll offsets of a grid */
+type ObserveGridOffsetCallBack = (
+  offset: GridOffset,
+  isScrolling: boolean,
+) => void
+
+/**
+ * Observes both scroll offsets of an Element with a single set of listeners.
+ * @param instance GridVirtualizer instance
+ * @param cb Callback with current offsets and scrolling state
+ * @returns Cleanup function to remove listeners
+ */
+export const observeGridElementOffset = <T extends Element>(
+  instance: GridVirtualizer<T, any>,
+  cb: ObserveGridOffsetCallBack,
+): (() => void) | undefined => {
+  const element = instance.scrollElement
+  if (!element) return
+  const targetWindow = instance.targetWindow
+  if (!targetWindow) return
+
+  let offset: GridOffset = { top: 0, left: 0 }
+  const fallback =
+    instance.options.useScrollendEvent && supportsScrollend
+      ? () => undefined
+      : debounce(
+          targetWindow,
+          () => cb(offset, false),
+          instance.options.isScrollingResetDelay,
+        )
+
+  const createHandler = (isScrolling: boolean) => () => {
+    offset = {
+      top: element['scrollTop'],
+      left: element['scrollLeft'] * ((instance.options.isRtl && -1) || 1),
+    }
+    fallback()
+    cb(offset, isScrolling)
+  }
+
+  const handler = createHandler(true)
+  const endHandler = createHandler(false)
+  endHandler() // Initial offsets
+
+  element.addEventListener('scroll', handler, addEventListenerOptions)
+  const registerScrollendEvent =
+    instance.options.useScrollendEvent && supportsScrollend
+  if (registerScrollendEvent) {
+    element.addEventListener('scrollend', endHandler, addEventListenerOptions)
+  }
+
+  return () => {
+    element.removeEventListener('scroll', handler)
+    if (registerScrollendEvent) {
+      element.removeEventListener('scrollend', endHandler)
+    }
+  }
+}
+
+/**
+ * Observes both scroll offsets of the Window with a single set of listeners.
+ * @param instance GridVirtualizer instance (Window scroll element)
+ * @param cb Callback with current offsets and scrolling state
+ * @returns Cleanup function to remove listeners
+ */
+export const observeGridWindowOffset = (
+  instance: GridVirtualizer<Window, any>,
+  cb: ObserveGridOffsetCallBack,
+): (() => void) | undefined => {
+  const element = instance.scrollElement
+  if (!element) return
+  const targetWindow = instance.targetWindow
+  if (!targetWindow) return
+
+  let offset: GridOffset = { top: 0, left: 0 }
+  const fallback =
+    instance.options.useScrollendEvent && supportsScrollend
+      ? () => undefined
+      : debounce(
+          targetWindow,
+          () => cb(offset, false),
+          instance.options.isScrollingResetDelay,
+        )
+
+  const createHandler = (isScrolling: boolean) => () => {
+    offset = {
+      top: element['scrollY'] ?? element['pageYOffset'],
+      left:
+        (element['scrollX'] ?? element['pageXOffset']) *
+        ((instance.options.isRtl && -1) || 1),
+    }
+    fallback()
+    cb(offset, isScrolling)
+  }
+
+  const handler = createHandler(true)
+  const endHandler = createHandler(false)
+  endHandler() // Initial offsets
+
+  element.addEventListener('scroll', handler, addEventListenerOptions)
+  const registerScrollendEvent =
+    instance.options.useScrollendEvent && supportsScrollend
+  if (registerScrollendEvent) {
+    element.addEventListener('scrollend', endHandler, addEventListenerOptions)
+  }
+
+  return () => {
+    element.removeEventListener('scroll', handler)
+    if (registerScrollendEvent) {
+      element.removeEventListener('scrollend', endHandler)
+    }
+  }
+}
+
+/**
+ * Virtualizes rows and columns of a 2D grid on a single scroll element.
+ * Both axes share one rect observer and one scroll listener; each axis is
+ * laid out by its own `Virtualizer`, available as `rows` and `columns`.
+ */
+export class GridVirtualizer<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> {
+  private unsubs: Array<void | (() => void)> = []
+  options!: Required<
+    Omit<GridVirtualizerOptions<TScrollElement, TItemElement>, 'initialOffset'>
+  > &
+    Pick<GridVirtualizerOptions<TScrollElement, TItemElement>, 'initialOffset'>
+  scrollElement: TScrollElement | null = null
+  targetWindow: (Window & typeof globalThis) | null = null
+  rows: Virtualizer<TScrollElement, TItemElement>
+  columns: Virtualizer<TScrollElement, TItemElement>
+  // Callbacks registered by the axis virtualizers' observer hooks
+  private rectCallbacks = new Set<(rect: Rect) => void>()
+  private rowOffsetCallback:
+    ((offset: number, isScrolling: boolean) => void) | null = null
+  private columnOffsetCallback:
+    ((offset: number, isScrolling: boolean) => void) | null = null
+  // Coalesces the notifications of both axes during a single dispatch
+  private batchDepth = 0
+  private pendingNotify: boolean | null = null
+  // Smooth scroll offsets collected by `scrollToCell`, issued as one call
+  private pendingScroll: Partial<GridOffset> | null = null
+
+  constructor(opts: GridVirtualizerOptions<TScrollElement, TItemElement>) {
+    this.setOptions(opts)
+    this.rows = new Virtualizer(this.getAxisOptions(false))
+    this.columns = new Virtualizer(this.getAxisOptions(true))
+  }
+
+  setOptions = (opts: GridVirtualizerOptions<TScrollElement, TItemElement>) => {
+    Object.entries(opts).forEach(([key, value]) => {
+      if (typeof value === 'undefined') delete (opts as any)[key]
+    })
+
+    this.options = {
+      onChange: () => {},
+      overscan: 1,
+      enabled: true,
+      initialRect: { width: 0, height: 0 },
+      isScrollingResetDelay: 150,
+      useScrollendEvent: false,
+      isRtl: false,
+      useAnimationFrameWithResizeObserver: false,
+      rowOptions: {},
+      columnOptions: {},
+      ...opts,
+    }
+
+    // The axis virtualizers don't exist yet while the constructor runs
+    if (this.rows) {
+      this.rows.setOptions(this.getAxisOptions(false))
+      this.columns.setOptions(this.getAxisOptions(true))
+    }
+  }
+
+  private getAxisOptions = (
+    horizontal: boolean,
+  ): VirtualizerOptions<TScrollElement, TItemElement> => {
+    const { initialOffset } = this.options
+    const axis = horizontal ? 'left' : 'top'
+
+    return {
+      overscan: this.options.overscan,
+      enabled: this.options.enabled,
+      isScrollingResetDelay: this.options.isScrollingResetDelay,
+      useScrollendEvent: this.options.useScrollendEvent,
+      isRtl: this.options.isRtl,
+      useAnimationFrameWithResizeObserver:
+        this.options.useAnimationFrameWithResizeObserver,
+      ...(horizontal ? this.options.columnOptions : this.options.rowOptions),
+      horizontal,
+      count: horizontal ? this.options.columnCount : this.options.rowCount,
+      estimateSize: horizontal
+        ? this.options.estimateColumnSize
+        : this.options.estimateRowSize,
+      getScrollElement: this.options.getScrollElement,
+      scrollToFn: (offset, scrollOptions, instance) => {
+        if (this.pendingScroll && scrollOptions.behavior === 'smooth') {
+          this.pendingScroll[axis] = offset
+          return
+        }
+        this.options.scrollToFn(offset, scrollOptions, instance)
+      },
+      initialRect: this.options.initialRect,
+      initialOffset: () =>
+        (typeof initialOffset === 'function'
+          ? initialOffset()
+          : initialOffset)?.[axis] ?? 0,
+      observeElementRect: (_, cb) => {
+        this.rectCallbacks.add(cb)
+        return () => this.rectCallbacks.delete(cb)
+      },
+      observeElementOffset: (_, cb) => {
+        if (horizontal) {
+          this.columnOffsetCallback = cb
+        } else {
+          this.rowOffsetCallback = cb
+        }
+        return () => {
+          if (horizontal) {
+            this.columnOffsetCallback = null
+          } else {
+            this.rowOffsetCallback = null
+          }
+        }
+      },
+      onChange: (_, sync) => this.notify(sync),
+    }
+  }
+
+  private notify = (sync: boolean) => {
+    if (this.batchDepth > 0) {
+      this.pendingNotify = (this.pendingNotify ?? false) || sync
+      return
+    }
+    this.options.onChange(this, sync)
+  }
+
+  private batch = (fn: () => void) => {
+    this.batchDepth++
+    try {
+      fn()
+    } finally {
+      this.batchDepth--
+    }
+    if (this.batchDepth === 0 && this.pendingNotify !== null) {
+      const sync = this.pendingNotify
+      this.pendingNotify = null
+      this.notify(sync)
+    }
+  }
+
+  private cleanup = () => {
+    this.unsubs.filter(Boolean).forEach((d) => d!())
+    this.unsubs = []
+    this.scrollElement = null
+    this.targetWindow = null
+  }
+
+  _didMount = () => {
+    const unmountRows = this.rows._didMount()
+    const unmountColumns = this.columns._didMount()
+    return () => {
+      this.cleanup()
+      unmountRows()
+      unmountColumns()
+    }
+  }
+
+  _willUpdate = () => {
+    this.batch(() => {
+      this.rows._willUpdate()
+      this.columns._willUpdate()
+
+      const scrollElement = this.rows.scrollElement
+      if (this.scrollElement === scrollElement) return
+
+      this.cleanup()
+      if (!scrollElement) return
+
+      this.scrollElement = scrollElement
+      this.targetWindow = this.rows.targetWindow
+
+      this.unsubs.push(
+        this.options.observeElementRect(this, (rect) => {
+          this.batch(() => this.rectCallbacks.forEach((cb) => cb(rect)))
+        }),
+      )
+
+      this.unsubs.push(
+        this.options.observeElementOffset(this, (offset, isScrolling) => {
+          this.batch(() => {
+            this.rowOffsetCallback?.(offset.top, isScrolling)
+            this.columnOffsetCallback?.(offset.left, isScrolling)
+          })
+        }),
+      )
+    })
+  }
+
+  /** Whether either axis is currently being scrolled */
+  get isScrolling() {
+    return this.rows.isScrolling || this.columns.isScrolling
+  }
+
+  /** Current scroll offsets of both axes */
+  get scrollOffset(): GridOffset {
+    return {
+      top: this.rows.scrollOffset ?? 0,
+      left: this.columns.scrollOffset ?? 0,
+    }
+  }
+
+  getVirtualRows = () => this.rows.getVirtualItems()
+
+  getVirtualColumns = () => this.columns.getVirtualItems()
+
+  /** Returns the rendered cells, row by row */
+  getVirtualCells = (): Array<VirtualCell> => {
+    const rows = this.getVirtualRows()
+    const columns = this.getVirtualColumns()
+    const cells: Array<VirtualCell> = []
+
+    for (const row of rows) {
+      for (const column of columns) {
+        cells.push({ key: `${row.key}:${column.key}`, row, column })
+      }
+    }
+
+    return cells
+  }
+
+  /** Returns the total size of the grid content */
+  getTotalSize = (): Rect => ({
+    width: this.columns.getTotalSize(),
+    height: this.rows.getTotalSize(),
+  })
+
+  /**
+   * Scrolls both axes so the given cell is aligned in the viewport. Resolves
+   * with the row and column items once both axes have settled.
+   */
+  /**
+   * Scrolls both axes to the given cell. A native smooth scroll is issued as
+   * a single `scrollTo` call on the scroll element, since a second smooth
+   * scroll would cancel the first one.
+   */
+  scrollToCell = (
+    rowIndex: number,
+    columnIndex: number,
+    options: ScrollToOptions = {},
+  ) => {
+    let settled: Array<Promise<VirtualItem | null>> = []
+    this.pendingScroll = {}
+    this.batch(() => {
+      settled = [
+        this.rows.scrollToIndex(rowIndex, options),
+        this.columns.scrollToIndex(columnIndex, options),
+      ]
+    })
+
+    const { top, left } = this.pendingScroll
+    this.pendingScroll = null
+    if (top !== undefined || left !== undefined) {
+      this.scrollElement?.scrollTo({
+        top,
+        left:
+          left === undefined
+            ? undefined
+            : left * ((this.options.isRtl && -1) || 1),
+        behavior: 'smooth',
+      })
+    }
+
+    return Promise.all(settled)
+  }
+
+  measure = () => {
+    this.batch(() => {
+      this.rows.measure()
+      this.columns.measure()
+    })
+  }
+}
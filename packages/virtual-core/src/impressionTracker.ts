@@ -0,0 +1,66 @@
+import type { VirtualItem, VisibleItem } from './index'
+
+type Key = VirtualItem['key']
+
+/** An item that stayed visible long enough to count as seen */
+export interface Impression {
+  item: VisibleItem // The item as it was when the dwell time was reached
+  dwellTime: number // Time (ms) the item had been visible enough
+}
+
+/**
+ * Turns successive viewport states into impressions. An item makes an
+ * impression once it has stayed at least `minVisibleRatio` visible for
+ * `minDwellTime` milliseconds without interruption, and each key makes at
+ * most one impression until `reset` is called. Time is passed in by the
+ * caller, so the tracker doesn't depend on timers or the DOM.
+ */
+export class ImpressionTracker {
+  // Time since which each candidate has been visible enough, by key
+  private visibleSince = new Map<Key, number>()
+  private seen = new Set<Key>()
+
+  /**
+   * Records the items visible at `now`. Returns the new impressions and the
+   * delay (ms) after which the next candidate reaches the dwell time, or
+   * `null` when no item is waiting for it.
+   */
+  update = (
+    items: Array<VisibleItem>,
+    now: number,
+    minVisibleRatio: number,
+    minDwellTime: number,
+  ) => {
+    const impressions: Array<Impression> = []
+    const candidates = new Map<Key, number>()
+    let nextCheckIn: number | null = null
+
+    for (const item of items) {
+      if (this.seen.has(item.key) || item.visibleRatio < minVisibleRatio) {
+        continue
+      }
+
+      const since = this.visibleSince.get(item.key) ?? now
+      const dwellTime = now - since
+      if (dwellTime >= minDwellTime) {
+        this.seen.add(item.key)
+        impressions.push({ item, dwellTime })
+      } else {
+        candidates.set(item.key, since)
+        const remaining = minDwellTime - dwellTime
+        nextCheckIn = Math.min(nextCheckIn ?? remaining, remaining)
+      }
+    }
+
+    // Items that scrolled away or got hidden start over next time
+    this.visibleSince = candidates
+
+    return { impressions, nextCheckIn }
+  }
+
+  /** Forgets the reported keys and the pending candidates */
+  reset = () => {
+    this.visibleSince.clear()
+    this.seen.clear()
+  }
+}
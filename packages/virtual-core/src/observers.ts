@@ -0,0 +1,238 @@
+import { addEventListenerOptions, supportsScrollend } from './scrollEvents'
+import { debounce } from './utils'
+import type { Virtualizer } from './virtualizer'
+
+/** Represents the dimensions of a rectangle (e.g., scroll container) */
+export interface Rect {
+  width: number
+  height: number
+}
+
+/**
+ * Observes an Element's dimensions using ResizeObserver.
+ * @param instance Virtualizer instance
+ * @param cb Callback function with the new Rect
+ * @returns Cleanup function to stop observing
+ */
+export const observeElementRect = <T extends Element>(
+  instance: Virtualizer<T, any>,
+  cb: (rect: Rect) => void,
+): (() => void) | undefined => {
+  const element = instance.scrollElement
+  if (!element) return
+  const targetWindow = instance.targetWindow
+  if (!targetWindow) return
+
+  const handler = (rect: Rect) => {
+    const { width, height } = rect
+    cb({ width: Math.round(width), height: Math.round(height) })
+  }
+
+  handler(element.getBoundingClientRect()) // Initial measurement
+
+  if (!targetWindow.ResizeObserver) return () => {}
+
+  const observer = new targetWindow.ResizeObserver((entries) => {
+    const run = () => {
+      const entry = entries[0]
+      if (entry?.borderBoxSize) {
+        const box = entry.borderBoxSize[0]
+        if (box) {
+          handler({ width: box.inlineSize, height: box.blockSize })
+          return
+        }
+      }
+      handler(element.getBoundingClientRect()) // Fallback
+    }
+    instance.options.useAnimationFrameWithResizeObserver
+      ? targetWindow.requestAnimationFrame(run)
+      : run()
+  })
+
+  observer.observe(element, { box: 'border-box' })
+
+  return () => observer.unobserve(element)
+}
+
+/**
+ * Observes the Window's dimensions (for window scrolling).
+ * @param instance Virtualizer instance (Window scroll element)
+ * @param cb Callback function with the new Rect
+ * @returns Cleanup function to remove listener
+ */
+export const observeWindowRect = (
+  instance: Virtualizer<Window, any>,
+  cb: (rect: Rect) => void,
+): (() => void) | undefined => {
+  const element = instance.scrollElement
+  if (!element) return
+
+  const handler = () => cb({ width: element.innerWidth, height: element.innerHeight })
+  handler() // Initial measurement
+
+  element.addEventListener('resize', handler, addEventListenerOptions)
+  return () => element.removeEventListener('resize', handler)
+}
+
+/**
+ * Observes the distance from the start of the scroll content to the element
+ * returned by `getScrollMarginElement`. It moves when content before the
+ * element resizes, which resizes one of its ancestors, or the window resizes.
+ * @param instance Virtualizer instance
+ * @param cb Callback with the new scroll margin
+ * @returns Cleanup function to stop observing
+ */
+export const observeScrollMargin = (
+  instance: Virtualizer<any, any>,
+  cb: (scrollMargin: number) => void,
+): (() => void) | undefined => {
+  const scrollElement: Element | Window | null = instance.scrollElement
+  const element = instance.options.getScrollMarginElement()
+  const targetWindow = instance.targetWindow
+  if (!scrollElement || !element || !targetWindow) return
+
+  const handler = () => {
+    const { horizontal } = instance.options
+    const rect = element.getBoundingClientRect()
+    const start = horizontal ? rect.left : rect.top
+
+    if ('document' in scrollElement) {
+      cb(start + (horizontal ? scrollElement.scrollX : scrollElement.scrollY))
+      return
+    }
+    const scrollRect = scrollElement.getBoundingClientRect()
+    cb(
+      horizontal
+        ? start -
+            scrollRect.left -
+            scrollElement.clientLeft +
+            scrollElement.scrollLeft
+        : start -
+            scrollRect.top -
+            scrollElement.clientTop +
+            scrollElement.scrollTop,
+    )
+  }
+  handler() // Initial measurement
+
+  targetWindow.addEventListener('resize', handler, addEventListenerOptions)
+  const observer = targetWindow.ResizeObserver
+    ? new targetWindow.ResizeObserver(handler)
+    : null
+  for (
+    let node: Element | null = element;
+    node && node !== scrollElement;
+    node = node.parentElement
+  ) {
+    observer?.observe(node)
+  }
+
+  return () => {
+    observer?.disconnect()
+    targetWindow.removeEventListener('resize', handler)
+  }
+}
+
+/** Callback type for observing scroll offset changes */
+export type ObserveOffsetCallBack = (offset: number, isScrolling: boolean) => void
+
+/**
+ * Observes an Element's scroll offset.
+ * Uses 'scroll' event and detects scroll end via 'scrollend' or debounce.
+ * @param instance Virtualizer instance
+ * @param cb Callback with current offset and scrolling state
+ * @returns Cleanup function to remove listeners
+ */
+export const observeElementOffset = <T extends Element>(
+  instance: Virtualizer<T, any>,
+  cb: ObserveOffsetCallBack,
+): (() => void) | undefined => {
+  const element = instance.scrollElement
+  if (!element) return
+  const targetWindow = instance.targetWindow
+  if (!targetWindow) return
+
+  let offset = 0
+  // Fallback to debounce if 'scrollend' is not supported/used
+  const fallback =
+    instance.options.useScrollendEvent && supportsScrollend
+      ? () => undefined
+      : debounce(targetWindow, () => cb(offset, false), instance.options.isScrollingResetDelay)
+
+  const createHandler = (isScrolling: boolean) => () => {
+    const { horizontal, isRtl } = instance.options
+    offset = horizontal
+      ? element['scrollLeft'] * ((isRtl && -1) || 1)
+      : element['scrollTop']
+    fallback() // Reset debounce timer or does nothing if using scrollend
+    cb(offset, isScrolling)
+  }
+
+  const handler = createHandler(true) // Handler for 'scroll'
+  const endHandler = createHandler(false) // Handler for 'scrollend' or debounce end
+
+  endHandler() // Initial offset calculation
+
+  element.addEventListener('scroll', handler, addEventListenerOptions)
+  const registerScrollendEvent =
+    instance.options.useScrollendEvent && supportsScrollend
+  if (registerScrollendEvent) {
+    element.addEventListener('scrollend', endHandler, addEventListenerOptions)
+  }
+
+  return () => {
+    element.removeEventListener('scroll', handler)
+    if (registerScrollendEvent) {
+      element.removeEventListener('scrollend', endHandler)
+    }
+  }
+}
+
+/**
+ * Observes the Window's scroll offset.
+ * @param instance Virtualizer instance (Window scroll element)
+ * @param cb Callback with current offset and scrolling state
+ * @returns Cleanup function to remove listeners
+ */
+export const observeWindowOffset = (
+  instance: Virtualizer<Window, any>,
+  cb: ObserveOffsetCallBack,
+): (() => void) | undefined => {
+  const element = instance.scrollElement
+  if (!element) return
+  const targetWindow = instance.targetWindow
+  if (!targetWindow) return
+
+  let offset = 0
+  const fallback =
+    instance.options.useScrollendEvent && supportsScrollend
+      ? () => undefined
+      : debounce(targetWindow, () => cb(offset, false), instance.options.isScrollingResetDelay)
+
+  const createHandler = (isScrolling: boolean) => () => {
+    const { horizontal, isRtl } = instance.options
+    offset = horizontal
+      ? (element['scrollX'] ?? element['pageXOffset']) * ((isRtl && -1) || 1)
+      : element['scrollY'] ?? element['pageYOffset']
+    fallback()
+    cb(offset, isScrolling)
+  }
+
+  const handler = createHandler(true)
+  const endHandler = createHandler(false)
+  endHandler() // Initial offset
+
+  element.addEventListener('scroll', handler, addEventListenerOptions)
+  const registerScrollendEvent =
+    instance.options.useScrollendEvent && supportsScrollend
+  if (registerScrollendEvent) {
+    element.addEventListener('scrollend', endHandler, addEventListenerOptions)
+  }
+
+  return () => {
+    element.removeEventListener('scroll', handler)
+    if (registerScrollendEvent) {
+      element.removeEventListener('scrollend', endHandler)
+    }
+  }
+}
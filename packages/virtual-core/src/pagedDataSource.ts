@@ -0,0 +1,201 @@
+/** Options of a PagedDataSource */
+export interface PagedDataSourceOptions<TItem> {
+  /** Number of items per page */
+  pageSize: number
+  /** Loads the items of a page, `pageIndex * pageSize` being the first one */
+  loadPage: (pageIndex: number) => Promise<Array<TItem>>
+  /** Delay (ms) waited after the last request before loading. @default 100 */
+  debounce?: number
+  /** Maximum number of pages kept loaded. @default Infinity */
+  maxPages?: number
+  /** Called whenever pages are loaded, evicted or start loading */
+  onChange?: (dataSource: PagedDataSource<TItem>) => void
+  /** Called when `loadPage` rejects; the page is requested again later */
+  onError?: (error: unknown, pageIndex: number) => void
+}
+
+/** Inclusive range of loaded item indexes */
+export interface LoadedRange {
+  startIndex: number
+  endIndex: number
+}
+
+/**
+ * Tracks the pages of a list whose total count is known but whose items are
+ * only partially loaded, e.g. a server-paginated table. Feed it the indexes
+ * a virtualizer renders through `requestIndexes` or `requestRange`; missing
+ * pages are loaded once the requests settle for `debounce` milliseconds, and
+ * the pages furthest from the requested range are evicted past `maxPages`.
+ * It doesn't depend on the DOM or on a framework.
+ */
+export class PagedDataSource<TItem> {
+  options!: PagedDataSourceOptions<TItem> & {
+    debounce: number
+    maxPages: number
+  }
+  private pages = new Map<number, Array<TItem>>()
+  private loadingPages = new Set<number>()
+  // Last requested range of pages, kept loaded and used for eviction
+  private requestedPages: { first: number; last: number } | null = null
+  private timeoutId: ReturnType<typeof setTimeout> | null = null
+  // Bumped by `invalidate` and `cleanup`, so results of earlier loads are
+  // dropped
+  private generation = 0
+
+  constructor(options: PagedDataSourceOptions<TItem>) {
+    this.setOptions(options)
+  }
+
+  setOptions = (options: PagedDataSourceOptions<TItem>) => {
+    this.options = {
+      debounce: 100,
+      maxPages: Infinity,
+      ...options,
+    }
+  }
+
+  private notify = () => {
+    this.options.onChange?.(this)
+  }
+
+  /** Returns the item at `index`, or `undefined` while it isn't loaded */
+  getItem = (index: number): TItem | undefined => {
+    const { pageSize } = this.options
+    return this.pages.get(Math.floor(index / pageSize))?.[index % pageSize]
+  }
+
+  /** Whether the item at `index` is loaded, e.g. to render a skeleton */
+  isItemLoaded = (index: number) => {
+    const { pageSize } = this.options
+    const page = this.pages.get(Math.floor(index / pageSize))
+    return !!page && index % pageSize < page.length
+  }
+
+  /** Whether the page containing `index` is being loaded */
+  isItemLoading = (index: number) =>
+    this.loadingPages.has(Math.floor(index / this.options.pageSize))
+
+  /** Returns the loaded item indexes as sorted, merged ranges */
+  getLoadedRanges = () => {
+    const { pageSize } = this.options
+    const ranges: Array<LoadedRange> = []
+
+    Array.from(this.pages.keys())
+      .sort((a, b) => a - b)
+      .forEach((pageIndex) => {
+        const startIndex = pageIndex * pageSize
+        const endIndex = startIndex + this.pages.get(pageIndex)!.length - 1
+        const last = ranges[ranges.length - 1]
+        if (last && last.endIndex + 1 === startIndex) {
+          last.endIndex = endIndex
+        } else if (endIndex >= startIndex) {
+          ranges.push({ startIndex, endIndex })
+        }
+      })
+
+    return ranges
+  }
+
+  /**
+   * Requests the pages covering ascending indexes, e.g. the result of
+   * `virtualizer.getVirtualIndexes()`
+   */
+  requestIndexes = (indexes: Array<number>) => {
+    if (indexes.length === 0) return
+    this.requestRange(indexes[0]!, indexes[indexes.length - 1]!)
+  }
+
+  /** Requests the pages covering `[startIndex, endIndex]` */
+  requestRange = (startIndex: number, endIndex: number) => {
+    const { pageSize, debounce } = this.options
+    this.requestedPages = {
+      first: Math.floor(Math.max(0, startIndex) / pageSize),
+      last: Math.floor(Math.max(0, endIndex) / pageSize),
+    }
+
+    if (this.timeoutId !== null) clearTimeout(this.timeoutId)
+    this.timeoutId = setTimeout(this.loadRequestedPages, debounce)
+  }
+
+  private loadRequestedPages = () => {
+    this.timeoutId = null
+    const requested = this.requestedPages
+    if (!requested) return
+
+    let started = false
+    for (
+      let pageIndex = requested.first;
+      pageIndex <= requested.last;
+      pageIndex++
+    ) {
+      if (this.pages.has(pageIndex) || this.loadingPages.has(pageIndex)) {
+        continue
+      }
+      this.loadPage(pageIndex)
+      started = true
+    }
+
+    if (started) this.notify()
+  }
+
+  private loadPage = (pageIndex: number) => {
+    const generation = this.generation
+    this.loadingPages.add(pageIndex)
+
+    // A synchronous throw goes through `onError` like a rejection
+    Promise.resolve()
+      .then(() => this.options.loadPage(pageIndex))
+      .then(
+        (items) => {
+          if (generation !== this.generation) return
+          this.loadingPages.delete(pageIndex)
+          this.pages.set(pageIndex, items)
+          this.evictPages()
+          this.notify()
+        },
+        (error) => {
+          if (generation !== this.generation) return
+          this.loadingPages.delete(pageIndex)
+          this.options.onError?.(error, pageIndex)
+          this.notify()
+        },
+      )
+  }
+
+  // Drops the pages furthest from the requested range past `maxPages`
+  private evictPages = () => {
+    const { maxPages } = this.options
+    const requested = this.requestedPages
+    if (this.pages.size <= maxPages || !requested) return
+
+    const distance = (pageIndex: number) =>
+      Math.max(requested.first - pageIndex, pageIndex - requested.last, 0)
+
+    Array.from(this.pages.keys())
+      .filter((pageIndex) => distance(pageIndex) > 0)
+      .sort((a, b) => distance(b) - distance(a))
+      .slice(0, this.pages.size - maxPages)
+      .forEach((pageIndex) => this.pages.delete(pageIndex))
+  }
+
+  /** Drops every page, e.g. after the data changed on the server */
+  invalidate = () => {
+    this.generation++
+    this.pages.clear()
+    this.loadingPages.clear()
+    if (this.requestedPages) {
+      const { first, last } = this.requestedPages
+      const { pageSize } = this.options
+      this.requestRange(first * pageSize, last * pageSize)
+    }
+    this.notify()
+  }
+
+  /** Cancels pending requests and loads, e.g. when the list unmounts */
+  cleanup = () => {
+    if (this.timeoutId !== null) clearTimeout(this.timeoutId)
+    this.timeoutId = null
+    this.generation++
+    this.loadingPages.clear()
+  }
+}
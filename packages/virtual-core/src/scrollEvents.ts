@@ -0,0 +1,6 @@
+/** Options for better scroll performance */
+export const addEventListenerOptions = { passive: true }
+
+/** Whether the browser supports the 'scrollend' event */
+export const supportsScrollend =
+  typeof window == 'undefined' ? true : 'onscrollend' in window
@@ -0,0 +1,94 @@
+/**
+ * Size index for very large lists where every value defaults to a single
+ * estimate. Only the values that were set are stored, so building it is
+ * O(1) regardless of the item count, and offsets are derived arithmetically
+ * from the estimate plus the sum of the stored deltas.
+ */
+export class SparseSizeIndex {
+  /** Number of values covered by the index */
+  readonly length: number
+  private defaultValue: number
+  private deltas = new Map<number, number>()
+  // Sorted indexes with a delta and their cumulative deltas, rebuilt lazily
+  private sortedIndexes: Array<number> = []
+  private cumulativeDeltas: Array<number> = [0]
+  private dirty = false
+
+  /**
+   * @param length Number of values covered by the index
+   * @param defaultValue Value used for every index without a stored delta
+   */
+  constructor(length: number, defaultValue: number) {
+    this.length = length
+    this.defaultValue = defaultValue
+  }
+
+  /** Returns the value stored at `index` */
+  get = (index: number) => this.defaultValue + (this.deltas.get(index) ?? 0)
+
+  /** Replaces the value stored at `index` */
+  set = (index: number, value: number) => {
+    const delta = value - this.defaultValue
+    if (delta === this.deltas.get(index)) return
+    this.deltas.set(index, delta)
+    this.dirty = true
+  }
+
+  /** Returns the indexes whose value was set */
+  getStoredIndexes = () => {
+    this.rebuild()
+    return this.sortedIndexes
+  }
+
+  /** Returns the sum of the values in `[0, index)` */
+  prefixSum = (index: number) => {
+    this.rebuild()
+    index = Math.max(0, Math.min(index, this.length))
+
+    let low = 0
+    let high = this.sortedIndexes.length
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      if (this.sortedIndexes[middle]! < index) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    return index * this.defaultValue + this.cumulativeDeltas[low]!
+  }
+
+  /** Returns the sum of all values */
+  total = () => this.prefixSum(this.length)
+
+  /**
+   * Finds the last index whose prefix sum is lower than or equal to `value`,
+   * i.e. the index of the item covering that offset. Returns 0 if none does.
+   */
+  search = (value: number) => {
+    let low = 0
+    let high = this.length - 1
+    while (low < high) {
+      const middle = (low + high + 1) >>> 1
+      if (this.prefixSum(middle) <= value) {
+        low = middle
+      } else {
+        high = middle - 1
+      }
+    }
+    return Math.max(0, low)
+  }
+
+  private rebuild = () => {
+    if (!this.dirty) return
+    this.dirty = false
+    this.sortedIndexes = Array.from(this.deltas.keys()).sort((a, b) => a - b)
+    this.cumulativeDeltas = [0]
+    let sum = 0
+    for (const index of this.sortedIndexes) {
+      sum += this.deltas.get(index)!
+      this.cumulativeDeltas.push(sum)
+    }
+  }
+}
@@ -175,3 +175,13 @@ export const debounce = (
     }, ms)
   }
 }
+
+/**
+ * 三次缓入缓出函数。
+ * 开始和结束时较慢，中间较快，用于平滑滚动动画。
+ *
+ * @param t 动画进度，范围 [0, 1]。
+ * @returns 缓动后的进度，范围 [0, 1]。
+ */
+export const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
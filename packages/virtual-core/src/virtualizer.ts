@@ -0,0 +1,2818 @@
+import { FenwickTree } from './fenwick'
+import { SparseSizeIndex } from './sparseSizeIndex'
+import { ImpressionTracker } from './impressionTracker'
+import { observeScrollMargin } from './observers'
+import { easeInOutCubic, memo, notUndefined } from './utils'
+import type { Impression } from './impressionTracker'
+import type { ObserveOffsetCallBack, Rect } from './observers'
+
+// Type definitions
+
+/** Scroll direction: forward (down/right) or backward (up/left) */
+type ScrollDirection = 'forward' | 'backward'
+
+/** Scroll alignment: how an item aligns with the container */
+type ScrollAlignment = 'start' | 'center' | 'end' | 'auto'
+
+/** Scroll behavior: instant ('auto') or smooth */
+type ScrollBehavior = 'auto' | 'smooth'
+
+/** Options for scrollTo methods */
+export interface ScrollToOptions {
+  /** Desired alignment. @default 'start' */
+  align?: ScrollAlignment
+  /** Scroll behavior. @default 'auto' */
+  behavior?: ScrollBehavior
+  /** Duration (ms) of an animation driven by the virtualizer. @default 300 */
+  duration?: number
+  /** Easing of an animation driven by the virtualizer, from [0, 1] to [0, 1] */
+  easing?: (progress: number) => number
+}
+
+/** Options for scrollToOffset */
+type ScrollToOffsetOptions = ScrollToOptions
+
+/** Options for scrollToIndex */
+type ScrollToIndexOptions = ScrollToOptions
+
+/** Represents the range of items to render, including overscan */
+export interface Range {
+  startIndex: number
+  endIndex: number
+  overscan: number // Number of items to render before/after visible items
+  count: number // Total number of items
+  overscanStart?: number // Items to render before, `overscan` when unset
+  overscanEnd?: number // Items to render after, `overscan` when unset
+}
+
+/** Type for unique item identifiers (keys) */
+type Key = number | string | bigint
+
+/** Type grouping items of similar size for adaptive estimates */
+type ItemType = number | string
+
+/** Represents a virtualized item in the list/grid */
+export interface VirtualItem {
+  key: Key // Unique key for the item
+  index: number // Original index in the data array
+  start: number // Starting offset (px) in the scroll container
+  end: number // Ending offset (px) in the scroll container
+  size: number // Measured size (height/width) of the item
+  lane: number // Lane index for grid layout (0 for lists)
+  sticky?: boolean // Whether the item is listed in `stickyIndexes`
+  activeSticky?: boolean // Whether the item is pinned at the viewport start
+  stickyOffset?: number // Offset (px, <= 0) pushing the active sticky item out
+  section?: number // Index of the section containing the item
+  sectionHeader?: boolean // Whether the item is the header of its section
+}
+
+/** An item intersecting the viewport */
+export interface VisibleItem extends VirtualItem {
+  visibleRatio: number // Visible fraction of the item's size, in (0, 1]
+}
+
+/** Flat index range of a section, header included */
+export interface SectionRange {
+  startIndex: number // Index of the section header
+  endIndex: number // Index of the last item of the section (inclusive)
+}
+
+/** Serializable item sizes (px) by stringified item key */
+export type SizeCache = Record<string, number>
+
+/** Visual scroll position, restorable across sessions and remounts */
+export interface ScrollSnapshot {
+  anchorKey: Key // Key of the first visible item
+  anchorIndex: number // Index of the first visible item when captured
+  offsetWithinItem: number // Distance (px) scrolled past the item start
+  sizeCache: SizeCache // Known item sizes when captured
+}
+
+/** Statistics about the measured item sizes */
+export interface MeasurementStats {
+  measuredCount: number // Number of measured items
+  mean: number // Mean measured size (px)
+  estimateError: number // Mean absolute difference (px) from the estimates
+}
+
+/** Payloads of the events emitted through `virtualizer.on` */
+export interface VirtualizerEvents {
+  rangeChange: { startIndex: number; endIndex: number } // Visible items
+  scrollStart: { offset: number; direction: ScrollDirection | null }
+  scrollEnd: { offset: number }
+  itemResize: {
+    item: VirtualItem // The item as laid out before the resize
+    size: number // Measured size
+    delta: number // Difference from the previous size
+  }
+  totalSizeChange: { totalSize: number; previousTotalSize: number }
+  impression: Impression // Emitted once per key, see `impressionRatio`
+}
+
+export type VirtualizerEventHandler<TEvent extends keyof VirtualizerEvents> = (
+  payload: VirtualizerEvents[TEvent],
+) => void
+
+type ListEdge = 'start' | 'end'
+
+/** Guards the `onStartReached` / `onEndReached` calls of an edge */
+interface EdgeLoad {
+  pending: boolean // Whether the promise of the last call is pending
+  calledAtCount: number | null // `count` of the last call while reached
+}
+
+/** State of a smooth scroll driven by the virtualizer */
+interface ScrollAnimation {
+  from: number // Offset the animation interpolates from
+  startTime: number | null // Timestamp of the first frame
+  lastTarget: number | null // Target of the previous frame
+  frameId: number // Pending animation frame
+  settleFrames: number // Frames run past `duration` waiting for the target
+}
+
+interface ScrollCommand {
+  resolve: (item: VirtualItem | null) => void
+  cleanup: () => void // Removes the cancellation listeners
+}
+
+/** Default duration (ms) of scrolls animated by the virtualizer */
+const DEFAULT_SCROLL_DURATION = 300
+
+/** Delay (ms) between the checks of a scroll that is settling */
+const SCROLL_CHECK_DELAY = 16
+
+/** Checks after which a scroll that doesn't settle is given up */
+const MAX_SCROLL_CHECKS = 60
+
+/** User interactions on the scroll element that cancel a scroll command */
+const SCROLL_COMMAND_CANCEL_EVENTS = [
+  'wheel',
+  'touchstart',
+  'pointerdown',
+  'keydown',
+] as const
+
+/** Item kept in place across layout changes */
+interface ScrollAnchor {
+  index: number // Index of the anchored item
+  key: Key // Key of the anchored item
+  offset: number // Distance (px) from the scroll offset to the item start
+}
+
+// Default functions
+
+/** Default function to get an item's key (uses its index) */
+export const defaultKeyExtractor = (index: number): Key => index
+
+/**
+ * Default function to calculate the range of indices to render.
+ * Includes items within the overscan range.
+ */
+export const defaultRangeExtractor = (range: Range): number[] => {
+  const start = Math.max(
+    range.startIndex - (range.overscanStart ?? range.overscan),
+    0,
+  )
+  const end = Math.min(
+    range.endIndex + (range.overscanEnd ?? range.overscan),
+    range.count - 1,
+  )
+  const arr = []
+  for (let i = start; i <= end; i++) {
+    arr.push(i)
+  }
+  return arr
+}
+
+// Measurement and scrolling functions
+
+/**
+ * Measures the size (width or height) of a virtual item's DOM element.
+ * Uses ResizeObserver entry if available, otherwise getBoundingClientRect.
+ * @param element The DOM element to measure
+ * @param entry Optional ResizeObserver entry
+ * @param instance Virtualizer instance
+ * @returns Measured size (px)
+ */
+export function measureElement<TItemElement extends Element>(
+  element: TItemElement,
+  entry: ResizeObserverEntry | undefined,
+  instance: Virtualizer<any, TItemElement>,
+): number {
+  if (entry?.borderBoxSize) {
+    const box = entry.borderBoxSize[0]
+    if (box) {
+      const size = Math.round(instance.options.horizontal ? box.inlineSize : box.blockSize)
+      return size
+    }
+  }
+  const rect = element.getBoundingClientRect()
+  return Math.round(instance.options.horizontal ? rect.width : rect.height)
+}
+
+/**
+ * Scrolls the window to a specific offset.
+ * @param offset Target scroll offset (px)
+ * @param options Scroll options (adjustments, behavior)
+ * @param instance Virtualizer instance
+ */
+export function windowScroll<
+  TScrollElement extends Window,
+  TItemElement extends Element,
+>(
+  offset: number,
+  options: { adjustments?: number; behavior?: ScrollBehavior },
+  instance: Virtualizer<TScrollElement, TItemElement>,
+): void {
+  const element = instance.scrollElement
+  const { horizontal, isRtl } = instance.options
+  const { adjustments = 0, behavior } = options
+  const finalOffset = offset + adjustments
+  element?.scrollTo?.({
+    [horizontal ? 'left' : 'top']: finalOffset * ((horizontal && isRtl && -1) || 1),
+    behavior,
+  })
+}
+
+/**
+ * Scrolls an Element to a specific offset.
+ * Uses element.scrollTo for smooth behavior, otherwise directly sets scrollTop/scrollLeft.
+ * @param offset Target scroll offset (px)
+ * @param options Scroll options (adjustments, behavior)
+ * @param instance Virtualizer instance
+ */
+export function elementScroll<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+>(
+  offset: number,
+  options: { adjustments?: number; behavior?: ScrollBehavior },
+  instance: Virtualizer<TScrollElement, TItemElement>,
+): void {
+  const element = instance.scrollElement
+  const { horizontal, isRtl } = instance.options
+  const { adjustments = 0, behavior } = options
+  const finalOffset = offset + adjustments
+  if (behavior === 'smooth' && element?.scrollTo) {
+    element.scrollTo({
+      [horizontal ? 'left' : 'top']: finalOffset * ((horizontal && isRtl && -1) || 1),
+      behavior,
+    })
+  } else {
+    if (!element) return
+    if (horizontal) {
+      element['scrollLeft'] = finalOffset * ((isRtl && -1) || 1)
+    } else {
+      element['scrollTop'] = finalOffset
+    }
+  }
+}
+
+/**
+ * Core options for creating a Virtualizer instance.
+ */
+export interface VirtualizerOptions<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> {
+  /** Total number of items [required] */
+  count: number
+  /** Function returning the scroll element [required] */
+  getScrollElement: () => TScrollElement | null
+  /** Function estimating item size (px) [required] */
+  estimateSize: (index: number) => number
+  /** Custom function to perform scrolling */
+  scrollToFn?: (
+    offset: number,
+    options: { adjustments?: number; behavior?: ScrollBehavior },
+    instance: Virtualizer<TScrollElement, TItemElement>,
+  ) => void
+  /** Scroll offset adjustment (px). @default 0 */
+  adjustments?: number
+  /** Default scroll behavior. @default 'auto' */
+  behavior?: ScrollBehavior
+  /** Custom function to observe element rect changes */
+  observeElementRect?: (
+    instance: Virtualizer<TScrollElement, TItemElement>,
+    cb: (rect: Rect) => void,
+  ) => void | (() => void)
+  /** Custom function to observe element offset changes */
+  observeElementOffset?: (
+    instance: Virtualizer<TScrollElement, TItemElement>,
+    cb: ObserveOffsetCallBack,
+  ) => void | (() => void)
+  /** Enable debug logging. @default false */
+  debug?: boolean
+  /** Initial rect for the scroll element */
+  initialRect?: Rect
+  /** Callback when virtualizer state changes */
+  onChange?: (
+    instance: Virtualizer<TScrollElement, TItemElement>,
+    sync: boolean,
+  ) => void
+  /** Custom function to measure item elements */
+  measureElement?: (
+    element: TItemElement,
+    entry: ResizeObserverEntry | undefined,
+    instance: Virtualizer<TScrollElement, TItemElement>,
+  ) => number
+  /** Number of items to render outside the viewport. @default 1 */
+  overscan?: number
+  /** Extra distance (px) to render on both sides of the viewport. @default 0 */
+  overscanPx?: number
+  /**
+   * Extra time (ms) of travel at the current scroll velocity to render ahead
+   * in the scroll direction, up to one viewport. @default 0
+   */
+  overscanTime?: number
+  /** Enable horizontal scrolling. @default false */
+  horizontal?: boolean
+  /** Padding at the start of the content (px). @default 0 */
+  paddingStart?: number
+  /** Padding at the end of the content (px). @default 0 */
+  paddingEnd?: number
+  /** Scroll container's start padding (affects alignment). @default 0 */
+  scrollPaddingStart?: number
+  /** Scroll container's end padding (affects alignment). @default 0 */
+  scrollPaddingEnd?: number
+  /** Initial scroll offset (px) or a function returning it. @default 0 */
+  initialOffset?: number | (() => number)
+  /** Function to get a unique key for an item. @default index */
+  getItemKey?: (index: number) => Key
+  /** Function to extract the range of indices to render. @default defaultRangeExtractor */
+  rangeExtractor?: (range: Range) => Array<number>
+  /** Extra margin (px) for scroll alignment calculations. @default 0 */
+  scrollMargin?: number
+  /**
+   * Element containing the list, e.g. below a header in a window
+   * virtualizer. Its offset from the start of the scroll content is tracked
+   * as `scrollMargin`, overriding the option.
+   */
+  getScrollMarginElement?: () => Element | null
+  /** Gap between items (px). @default 0 */
+  gap?: number
+  /** HTML attribute name for storing item index. @default 'data-index' */
+  indexAttribute?: string
+  /** Initial item measurement cache */
+  initialMeasurementsCache?: Array<VirtualItem>
+  /** Initial item sizes by key, as returned by `exportSizeCache` */
+  initialSizeCache?: SizeCache
+  /** Scroll position to restore, as returned by `getScrollSnapshot` */
+  initialSnapshot?: ScrollSnapshot
+  /** Number of lanes for grid layout. @default 0 (list layout) */
+  lanes?: number
+  /**
+   * Lane to place an item in (multi-lane only). Items without a lane go to
+   * the currently shortest lane.
+   */
+  getItemLane?: (index: number) => number | undefined
+  /**
+   * Minimum lane size (px). When set, the lane count is derived from the
+   * scroll element's cross size as the most lanes that fit.
+   */
+  minLaneSize?: number
+  /**
+   * Maximum lane size (px). When set, the lane count is derived from the
+   * scroll element's cross size as the fewest lanes that fit.
+   */
+  maxLaneSize?: number
+  /**
+   * Indexes of items that stick to the start of the viewport. The last one
+   * before the visible range is always rendered. @default []
+   */
+  stickyIndexes?: Array<number>
+  /**
+   * Number of items in each section. Every section starts with a header
+   * item, so `count` should equal the sum of the counts plus the number of
+   * sections.
+   */
+  sectionCounts?: Array<number>
+  /** Delay (ms) to detect scroll end if 'scrollend' isn't used. @default 50 */
+  isScrollingResetDelay?: number
+  /** Use native 'scrollend' event if available. @default true */
+  useScrollendEvent?: boolean
+  /** Velocity (px/ms) from which `isScrollingFast` turns on. @default 2 */
+  fastScrollVelocity?: number
+  /**
+   * Velocity (px/ms) below which `isScrollingFast` turns off again, lower
+   * than `fastScrollVelocity` so it doesn't flicker. @default 1
+   */
+  slowScrollVelocity?: number
+  /** Enable/disable the virtualizer. @default true */
+  enabled?: boolean
+  /** Right-to-left mode. @default false */
+  isRtl?: boolean
+  /** Use requestAnimationFrame with ResizeObserver callback. @default true */
+  useAnimationFrameWithResizeObserver?: boolean
+  /**
+   * Derive offsets from a single estimate plus measured deltas and only
+   * materialize rendered items. Intended for multi-million item counts.
+   * @default false
+   */
+  lazyMeasurements?: boolean
+  /**
+   * Estimate unmeasured items from the mean measured size of their type
+   * instead of `estimateSize`, once an item of that type was measured.
+   * @default false
+   */
+  adaptiveEstimate?: boolean
+  /**
+   * Jump instead of animating scrolls when the user prefers reduced motion.
+   * @default true
+   */
+  respectReducedMotion?: boolean
+  /** Type of an item, grouping sizes for `adaptiveEstimate`. @default 0 */
+  getItemType?: (index: number) => ItemType
+  /**
+   * Start at the end of the list and keep the viewport pinned to it while
+   * items are appended or grow, until the user scrolls back. @default false
+   */
+  anchorToEnd?: boolean
+  /** Distance (px) from the end still considered at the end. @default 1 */
+  atEndThreshold?: number
+  /**
+   * Visible fraction of an item required for its `impression` event.
+   * @default 0.5
+   */
+  impressionRatio?: number
+  /**
+   * Time (ms) an item must stay visible enough for its `impression` event.
+   * @default 1000
+   */
+  impressionDwellTime?: number
+  /**
+   * Called when the viewport reaches the end of the list, e.g. to load the
+   * next page. Returning a promise skips further calls until it settles.
+   */
+  onEndReached?: (
+    instance: Virtualizer<TScrollElement, TItemElement>,
+  ) => void | Promise<unknown>
+  /** Same as `onEndReached`, at the start of the list */
+  onStartReached?: (
+    instance: Virtualizer<TScrollElement, TItemElement>,
+  ) => void | Promise<unknown>
+  /** Items from an edge still considered reached. @default 0 */
+  reachedThreshold?: number
+  /** Distance (px) from an edge still considered reached. @default 0 */
+  reachedThresholdPx?: number
+  /**
+   * Whether more items may follow `count` when the total count is unknown.
+   * `getTotalSize()` then includes `estimatedRemainingCount` more items.
+   * @default false
+   */
+  hasMore?: boolean
+  /** Items estimated to follow `count` while `hasMore` is set. @default 10 */
+  estimatedRemainingCount?: number
+  /**
+   * Largest total size (px) rendered, as browsers cap the size of elements
+   * (around 17 million pixels in Firefox, 33 million in Chrome). Longer lists
+   * switch to scaled coordinates: the physical scroll range maps onto the
+   * whole list and rendered items are positioned relative to the viewport.
+   * @default Infinity
+   */
+  maxScrollSize?: number
+}
+
+// Virtualizer class
+
+/**
+ * Virtualizer class for efficient rendering of large lists/grids.
+ */
+export class Virtualizer<
+  TScrollElement extends Element | Window,
+  TItemElement extends Element,
+> {
+  private unsubs: Array<void | (() => void)> = []
+  options!: Required<VirtualizerOptions<TScrollElement, TItemElement>>
+  scrollElement: TScrollElement | null = null
+  targetWindow: (Window & typeof globalThis) | null = null
+  isScrolling = false
+  isAtEnd = false
+  // Whether the viewport follows the end (anchorToEnd only)
+  private followingEnd = true
+  private scrollToIndexTimeoutId: number | null = null
+  private scrollAnimation: ScrollAnimation | null = null
+  private scrollCommand: ScrollCommand | null = null
+  private previousTotalSize: number | null = null
+  private impressionTracker = new ImpressionTracker()
+  // Pending impression check, with the window whose timer runs it
+  private impressionTimeout: {
+    targetWindow: Window & typeof globalThis
+    id: number
+  } | null = null
+  private edgeLoads: Record<ListEdge, EdgeLoad> = {
+    start: { pending: false, calledAtCount: null },
+    end: { pending: false, calledAtCount: null },
+  }
+  private listeners = new Map<
+    keyof VirtualizerEvents,
+    Set<VirtualizerEventHandler<any>>
+  >()
+  // Items by index. Single-lane layouts materialize them on demand, so this
+  // is sparse until `measurementsCache` fills it in.
+  private measurements: Array<VirtualItem> = []
+  private measurementsFilled = false
+  private itemSizeCache = new Map<Key, number>()
+  // Sizes imported by stringified key, used until the item is measured
+  private importedSizeCache = new Map<string, number>()
+  private pendingMeasuredCacheIndexes: Array<number> = []
+  // Lane of each measured item, kept stable across layouts (multi-lane only)
+  private laneAssignments = new Map<Key, number>()
+  private laneAssignmentsLanes = 0
+  // Indexes of the items placed in each lane, in ascending order
+  private laneIndexes: Array<Array<number>> = []
+  // Prefix sums of `size + gap` per index, used for single-lane layouts
+  private sizeIndex: FenwickTree | SparseSizeIndex | null = null
+  private sizeIndexOptions: unknown = null
+  private sizeIndexStart = 0
+  private sizeIndexGap = 0
+  // Measured size and type of each measured item, for `getMeasurementStats`
+  private measuredItems = new Map<Key, { type: ItemType; size: number }>()
+  private sizeStatsByType = new Map<ItemType, { count: number; sum: number }>()
+  private estimateErrorSum = 0
+  // Mean measured size per item type, rounded to whole pixels, along with
+  // the number of measured items it was computed from
+  private adaptiveEstimates = new Map<
+    ItemType,
+    { size: number; count: number }
+  >()
+  // Bumped whenever a measured size changes, invalidating materialized items
+  private measurementsVersion = 0
+  scrollRect: Rect | null = null
+  scrollOffset: number | null = null
+  scrollDirection: ScrollDirection | null = null
+  // Smoothed scroll velocity (px/ms, negative backward), 0 when not scrolling
+  scrollVelocity = 0
+  isScrollingFast = false
+  private velocitySample: { offset: number; time: number } | null = null
+  // Part of the `hasMore` remainder kept after the list ended, see `shrinkTail`
+  private tailSize = 0
+  // `scrollMargin` observed from `getScrollMarginElement`, null if untracked
+  private trackedScrollMargin: number | null = null
+  // Offset last reported by or sent to the scroll element, see `maxScrollSize`
+  private physicalScrollOffset: number | null = null
+  private scrollAdjustments = 0
+  // Offset restored from a scroll anchor, applied by the next `_willUpdate`
+  private pendingScrollOffset: number | null = null
+  // `initialSnapshot`, re-applied with measurements once mounted
+  private pendingSnapshot: ScrollSnapshot | null = null
+  shouldAdjustScrollPositionOnItemSizeChange:
+    | undefined
+    | ((
+        item: VirtualItem,
+        delta: number,
+        instance: Virtualizer<TScrollElement, TItemElement>,
+      ) => boolean)
+  elementsCache = new Map<Key, TItemElement>()
+  private observer = (() => {
+    let _ro: ResizeObserver | null = null
+
+    const get = () => {
+      if (_ro) {
+        return _ro
+      }
+
+      if (!this.targetWindow || !this.targetWindow.ResizeObserver) {
+        return null
+      }
+
+      return (_ro = new this.targetWindow.ResizeObserver((entries) => {
+        entries.forEach((entry) => {
+          const run = () => {
+            this._measureElement(entry.target as TItemElement, entry)
+          }
+          this.options.useAnimationFrameWithResizeObserver
+            ? requestAnimationFrame(run)
+            : run()
+        })
+      }))
+    }
+
+    return {
+      disconnect: () => {
+        get()?.disconnect()
+        _ro = null
+      },
+      observe: (target: Element) =>
+        get()?.observe(target, { box: 'border-box' }),
+      unobserve: (target: Element) => get()?.unobserve(target),
+    }
+  })()
+  range: { startIndex: number; endIndex: number } | null = null
+
+  constructor(opts: VirtualizerOptions<TScrollElement, TItemElement>) {
+    this.setOptions(opts)
+    Object.entries(this.options.initialSizeCache).forEach(([key, size]) => {
+      this.importedSizeCache.set(key, size)
+    })
+
+    const snapshot = this.options.initialSnapshot
+    if (snapshot) {
+      Object.entries(snapshot.sizeCache).forEach(([key, size]) => {
+        this.importedSizeCache.set(key, size)
+      })
+      // Render the right items before mount, scroll once mounted
+      this.restoreScrollAnchor(getSnapshotAnchor(snapshot))
+      this.pendingScrollOffset = null
+      this.pendingSnapshot = snapshot
+    }
+  }
+
+  setOptions = (opts: VirtualizerOptions<TScrollElement, TItemElement>) => {
+    Object.entries(opts).forEach(([key, value]) => {
+      if (typeof value === 'undefined') delete (opts as any)[key]
+    })
+
+    // Items inserted or removed before the viewport shift every offset, so
+    // keep the first visible item in place across count and key changes
+    const prevOptions = this.options as typeof this.options | undefined
+    const anchor =
+      prevOptions &&
+      (opts.count !== prevOptions.count ||
+        (opts.getItemKey ?? defaultKeyExtractor) !== prevOptions.getItemKey)
+        ? this.captureScrollAnchor()
+        : null
+
+    this.options = {
+      debug: false,
+      initialOffset: 0,
+      overscan: 1,
+      overscanPx: 0,
+      overscanTime: 0,
+      paddingStart: 0,
+      paddingEnd: 0,
+      scrollPaddingStart: 0,
+      scrollPaddingEnd: 0,
+      horizontal: false,
+      getItemKey: defaultKeyExtractor,
+      rangeExtractor: defaultRangeExtractor,
+      onChange: () => {},
+      measureElement,
+      initialRect: { width: 0, height: 0 },
+      scrollMargin: 0,
+      getScrollMarginElement: () => null,
+      gap: 0,
+      indexAttribute: 'data-index',
+      initialMeasurementsCache: [],
+      initialSizeCache: {},
+      lanes: 1,
+      getItemLane: () => undefined,
+      stickyIndexes: [],
+      sectionCounts: [],
+      isScrollingResetDelay: 150,
+      enabled: true,
+      isRtl: false,
+      useScrollendEvent: false,
+      fastScrollVelocity: 2,
+      slowScrollVelocity: 1,
+      useAnimationFrameWithResizeObserver: false,
+      lazyMeasurements: false,
+      adaptiveEstimate: false,
+      respectReducedMotion: true,
+      getItemType: () => 0,
+      anchorToEnd: false,
+      atEndThreshold: 1,
+      impressionRatio: 0.5,
+      impressionDwellTime: 1000,
+      reachedThreshold: 0,
+      reachedThresholdPx: 0,
+      hasMore: false,
+      estimatedRemainingCount: 10,
+      maxScrollSize: Infinity,
+      ...opts,
+    }
+
+    if (this.trackedScrollMargin !== null) {
+      this.options.scrollMargin = this.trackedScrollMargin
+    }
+
+    if (anchor && !(this.options.anchorToEnd && this.followingEnd)) {
+      this.restoreScrollAnchor(anchor, this.options.count - prevOptions!.count)
+    }
+
+    if (this.options.hasMore) {
+      this.tailSize = 0
+    } else if (prevOptions?.hasMore) {
+      // The list just ended: keep the part of the estimated remainder that's
+      // in view until the user scrolls back, so the content doesn't jump
+      this.tailSize = Infinity
+      this.shrinkTail()
+    }
+  }
+
+  private notify = (sync: boolean) => {
+    this.emitStateChanges()
+    this.options.onChange?.(this, sync)
+  }
+
+  /**
+   * Subscribes to an event of the virtualizer and returns a function that
+   * unsubscribes the handler. Unlike `onChange`, every event tells what
+   * changed.
+   */
+  on = <TEvent extends keyof VirtualizerEvents>(
+    event: TEvent,
+    handler: VirtualizerEventHandler<TEvent>,
+  ) => {
+    // Catch up first, so the handler only hears about later changes
+    if (event === 'rangeChange') this.checkRangeChange()
+    if (event === 'totalSizeChange') this.checkTotalSizeChange()
+
+    const handlers = this.listeners.get(event) ?? new Set()
+    this.listeners.set(event, handlers)
+    handlers.add(handler)
+
+    if (event === 'impression') this.trackImpressions()
+
+    return () => {
+      handlers.delete(handler)
+    }
+  }
+
+  private emit = <TEvent extends keyof VirtualizerEvents>(
+    event: TEvent,
+    payload: VirtualizerEvents[TEvent],
+  ) => {
+    this.listeners.get(event)?.forEach((handler) => handler(payload))
+  }
+
+  private hasListeners = (event: keyof VirtualizerEvents) =>
+    !!this.listeners.get(event)?.size
+
+  // Derived state is only compared while someone listens to its changes
+  private emitStateChanges = () => {
+    if (this.hasListeners('rangeChange')) this.checkRangeChange()
+    if (this.hasListeners('totalSizeChange')) this.checkTotalSizeChange()
+    this.trackImpressions()
+    this.checkEdgesReached()
+  }
+
+  private checkEdgesReached = () => {
+    const { onStartReached, onEndReached } = this.options
+    if (!onStartReached && !onEndReached) return
+
+    // An empty list is at both edges, so it can load its first page
+    if (this.options.count === 0) {
+      this.checkEdgeReached('start', onStartReached, true)
+      this.checkEdgeReached('end', onEndReached, true)
+      return
+    }
+
+    const range = this.calculateRange()
+    if (!range) return
+
+    const { count, scrollMargin, reachedThreshold, reachedThresholdPx } =
+      this.options
+    const scrollOffset = this.getScrollOffset()
+
+    this.checkEdgeReached(
+      'start',
+      onStartReached,
+      range.startIndex <= reachedThreshold ||
+        scrollOffset - scrollMargin <= reachedThresholdPx,
+    )
+    this.checkEdgeReached(
+      'end',
+      onEndReached,
+      range.endIndex >= count - 1 - reachedThreshold ||
+        this.getEndOffset() - scrollOffset <= reachedThresholdPx,
+    )
+  }
+
+  /**
+   * Calls `callback` once per `count` while the edge stays reached, and not
+   * while the promise returned by a previous call is pending. Leaving the
+   * edge allows another call at the same `count`, e.g. after a failed load.
+   */
+  private checkEdgeReached = (
+    edge: ListEdge,
+    callback: VirtualizerOptions<TScrollElement, TItemElement>['onEndReached'],
+    reached: boolean,
+  ) => {
+    const load = this.edgeLoads[edge]
+    if (!callback || !reached) {
+      load.calledAtCount = null
+      return
+    }
+    if (load.pending || load.calledAtCount === this.options.count) return
+
+    load.calledAtCount = this.options.count
+    const result = callback(this)
+    if (result && typeof result.then === 'function') {
+      load.pending = true
+      const settle = () => {
+        load.pending = false
+        // Check again in case `count` changed while it was pending
+        this.checkEdgesReached()
+      }
+      result.then(settle, settle)
+    }
+  }
+
+  private checkRangeChange = memo(
+    () => {
+      const range = this.calculateRange()
+      return [range?.startIndex ?? null, range?.endIndex ?? null]
+    },
+    (startIndex, endIndex) => {
+      if (startIndex !== null && endIndex !== null) {
+        this.emit('rangeChange', { startIndex, endIndex })
+      }
+    },
+    { key: false },
+  )
+
+  // Runs on every state change and again when the next candidate item
+  // reaches the dwell time, as nothing else may change meanwhile
+  private trackImpressions = () => {
+    this.clearImpressionTimeout()
+    if (!this.hasListeners('impression')) return
+
+    const { impressions, nextCheckIn } = this.impressionTracker.update(
+      this.getVisibleItems(),
+      this.now(),
+      this.options.impressionRatio,
+      this.options.impressionDwellTime,
+    )
+    impressions.forEach((impression) => this.emit('impression', impression))
+
+    if (nextCheckIn !== null) {
+      // Without a mounted scroll element, e.g. in tests, use the global timers
+      const targetWindow =
+        this.targetWindow ?? (globalThis as Window & typeof globalThis)
+      this.impressionTimeout = {
+        targetWindow,
+        id: targetWindow.setTimeout(this.trackImpressions, nextCheckIn),
+      }
+    }
+  }
+
+  private clearImpressionTimeout = () => {
+    if (this.impressionTimeout) {
+      const { targetWindow, id } = this.impressionTimeout
+      targetWindow.clearTimeout(id)
+      this.impressionTimeout = null
+    }
+  }
+
+  /** Lets every item make an `impression` again, e.g. after a refresh */
+  resetImpressions = () => {
+    this.impressionTracker.reset()
+    this.trackImpressions()
+  }
+
+  private checkTotalSizeChange = memo(
+    () => [this.getTotalSize()],
+    (totalSize) => {
+      if (this.previousTotalSize !== null) {
+        this.emit('totalSizeChange', {
+          totalSize,
+          previousTotalSize: this.previousTotalSize,
+        })
+      }
+      this.previousTotalSize = totalSize
+    },
+    { key: false },
+  )
+
+  private maybeNotify = memo(
+    () => {
+      this.calculateRange()
+
+      return [
+        this.isScrolling,
+        this.range ? this.range.startIndex : null,
+        this.range ? this.range.endIndex : null,
+        this.getStickyOffset(),
+        this.isAtEnd,
+        this.isScrollingFast,
+        this.getScrollShift(),
+      ]
+    },
+    (isScrolling) => {
+      this.notify(isScrolling)
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'maybeNotify',
+      debug: () => this.options.debug,
+      initialDeps: [
+        this.isScrolling,
+        this.range ? this.range.startIndex : null,
+        this.range ? this.range.endIndex : null,
+        0,
+        this.isAtEnd,
+        this.isScrollingFast,
+        0,
+      ] as [
+        boolean,
+        number | null,
+        number | null,
+        number,
+        boolean,
+        boolean,
+        number,
+      ],
+    },
+  )
+
+  private cleanup = () => {
+    this.cancelScrollToIndex()
+    this.clearImpressionTimeout()
+    this.unsubs.filter(Boolean).forEach((d) => d!())
+    this.unsubs = []
+    this.observer.disconnect()
+    this.trackedScrollMargin = null
+    this.scrollElement = null
+    this.targetWindow = null
+  }
+
+  _didMount = () => {
+    return () => {
+      this.cleanup()
+    }
+  }
+
+  _willUpdate = () => {
+    const scrollElement = this.options.enabled
+      ? this.options.getScrollElement()
+      : null
+
+    if (this.scrollElement !== scrollElement) {
+      this.cleanup()
+
+      if (!scrollElement) {
+        this.maybeNotify()
+        return
+      }
+
+      this.scrollElement = scrollElement
+
+      if (this.scrollElement && 'ownerDocument' in this.scrollElement) {
+        this.targetWindow = this.scrollElement.ownerDocument.defaultView
+      } else {
+        this.targetWindow = this.scrollElement?.window ?? null
+      }
+
+      this.elementsCache.forEach((cached) => {
+        this.observer.observe(cached)
+      })
+
+      this._scrollToOffset(this.getScrollOffset(), {
+        adjustments: undefined,
+        behavior: undefined,
+      })
+
+      if (this.pendingSnapshot) {
+        this.applyScrollSnapshot(this.pendingSnapshot)
+        this.pendingSnapshot = null
+      }
+
+      this.unsubs.push(
+        this.options.observeElementRect(this, (rect) => {
+          const lanes = this.getLanes()
+          const anchor = this.captureScrollAnchor()
+          this.scrollRect = rect
+          // Keep the item at the top of the viewport in place when the
+          // responsive lane count changes
+          if (
+            anchor &&
+            this.getLanes() !== lanes &&
+            this.restoreScrollAnchor(anchor)
+          ) {
+            this.notify(false)
+          } else {
+            this.maybeNotify()
+          }
+        }),
+      )
+
+      this.unsubs.push(
+        this.options.observeElementOffset(this, (rawOffset, isScrolling) => {
+          const offset = this.toVirtualOffset(rawOffset)
+          const wasScrolling = this.isScrolling
+          this.scrollAdjustments = 0
+          this.scrollDirection = isScrolling
+            ? this.getScrollOffset() < offset
+              ? 'forward'
+              : 'backward'
+            : null
+          this.updateScrollVelocity(offset, isScrolling)
+          this.scrollOffset = offset
+          this.physicalScrollOffset = rawOffset
+          this.isScrolling = isScrolling
+          this.shrinkTail()
+          this.updateIsAtEnd()
+          if (!this.isAtEnd && this.scrollDirection === 'backward') {
+            // The user scrolled away from the end
+            this.followingEnd = false
+          }
+
+          if (isScrolling && !wasScrolling) {
+            this.emit('scrollStart', {
+              offset,
+              direction: this.scrollDirection,
+            })
+          } else if (!isScrolling && wasScrolling) {
+            this.emit('scrollEnd', { offset })
+          }
+
+          this.maybeNotify()
+        }),
+      )
+
+      this.unsubs.push(observeScrollMargin(this, this.updateScrollMargin))
+    }
+
+    this.flushPendingScrollOffset()
+
+    this.updateIsAtEnd()
+    // Keep the end pinned once appended or resized items have rendered
+    if (
+      this.options.anchorToEnd &&
+      this.followingEnd &&
+      this.scrollElement &&
+      !this.isAtEnd
+    ) {
+      this._scrollToOffset(this.getEndOffset(), {
+        adjustments: undefined,
+        behavior: undefined,
+      })
+    }
+
+    // Options such as `count` change the range and total size without
+    // going through `notify`
+    this.emitStateChanges()
+  }
+
+  private updateScrollVelocity = (offset: number, isScrolling: boolean) => {
+    if (!isScrolling) {
+      this.scrollVelocity = 0
+      this.isScrollingFast = false
+      this.velocitySample = null
+      return
+    }
+
+    const time = this.now()
+    const sample = this.velocitySample
+    if (sample && time > sample.time) {
+      const velocity = (offset - sample.offset) / (time - sample.time)
+      // Smooth out the jitter of scroll event timing
+      this.scrollVelocity = this.scrollVelocity * 0.5 + velocity * 0.5
+    }
+    if (!sample || time > sample.time) {
+      this.velocitySample = { offset, time }
+    }
+
+    const speed = Math.abs(this.scrollVelocity)
+    this.isScrollingFast = this.isScrollingFast
+      ? speed > this.options.slowScrollVelocity
+      : speed >= this.options.fastScrollVelocity
+  }
+
+  /**
+   * Number of items to render before and after the visible range: `overscan`
+   * plus the items covered by `overscanPx`, and by `overscanTime` of travel
+   * ahead in the scroll direction.
+   */
+  private getOverscan = (
+    startIndex: number,
+    endIndex: number,
+  ): [number, number] => {
+    const { overscan, overscanPx, overscanTime } = this.options
+    const ahead = Math.min(
+      Math.abs(this.scrollVelocity) * overscanTime,
+      this.getSize(),
+    )
+    const before = overscanPx + (this.scrollVelocity < 0 ? ahead : 0)
+    const after = overscanPx + (this.scrollVelocity > 0 ? ahead : 0)
+
+    return [
+      before > 0
+        ? overscan +
+          startIndex -
+          this.findNearestIndexForOffset(
+            notUndefined(this.getMeasurement(startIndex)).start - before,
+          )
+        : overscan,
+      after > 0
+        ? overscan +
+          this.findNearestIndexForOffset(
+            notUndefined(this.getMeasurement(endIndex)).end + after,
+          ) -
+          endIndex
+        : overscan,
+    ]
+  }
+
+  /**
+   * Size (px) following the last item: the estimated remaining items while
+   * `hasMore` is set, then whatever of it was still in view when it ended.
+   */
+  private getRemainingSize = () => {
+    if (!this.options.hasMore) return this.tailSize
+
+    const { count, estimatedRemainingCount, gap } = this.options
+    const stats = this.getMeasurementStats()
+    const itemSize =
+      stats.measuredCount > 0
+        ? stats.mean
+        : count > 0
+          ? this.getEstimatedSize(count - 1)
+          : 0
+
+    return estimatedRemainingCount * (itemSize + gap)
+  }
+
+  // Shrinks the tail left by `hasMore` to the part that's still in view
+  private shrinkTail = () => {
+    if (this.tailSize === 0) return
+
+    const tailSize = this.tailSize
+    this.tailSize = 0
+    const viewEnd =
+      this.getScrollOffset() + this.getSize() - this.options.scrollMargin
+    this.tailSize = Math.min(
+      tailSize,
+      Math.max(0, viewEnd - this.getContentSize()),
+    )
+  }
+
+  private getSize = () => {
+    if (!this.options.enabled) {
+      this.scrollRect = null
+      return 0
+    }
+
+    this.scrollRect = this.scrollRect ?? this.options.initialRect
+
+    return this.scrollRect[this.options.horizontal ? 'width' : 'height']
+  }
+
+  // Scroll offset showing the end of the list
+  private getEndOffset = () =>
+    Math.max(
+      0,
+      this.getContentSize() + this.options.scrollMargin - this.getSize(),
+    )
+
+  /**
+   * Virtual pixels per physical pixel past `scrollMargin`, 1 unless the list
+   * is longer than `maxScrollSize`
+   */
+  private getScrollScale = () => {
+    const contentSize = this.getContentSize()
+    const totalSize = this.getTotalSize()
+    if (contentSize <= totalSize) return 1
+
+    const size = this.getSize()
+    return (contentSize - size) / Math.max(1, totalSize - size)
+  }
+
+  private toVirtualOffset = (offset: number) => {
+    const { scrollMargin } = this.options
+    if (offset <= scrollMargin) return offset
+    return scrollMargin + (offset - scrollMargin) * this.getScrollScale()
+  }
+
+  private toPhysicalOffset = (offset: number) => {
+    const { scrollMargin } = this.options
+    if (offset <= scrollMargin) return offset
+    return scrollMargin + (offset - scrollMargin) / this.getScrollScale()
+  }
+
+  /**
+   * Distance from the virtual to the physical scroll offset, added to the
+   * rendered items so they're positioned exactly relative to the viewport.
+   * The physical offset is kept as reported, so measurements changing the
+   * scale don't move the items until the next scroll.
+   */
+  private getScrollShift = () => {
+    if (this.getScrollScale() === 1) return 0
+
+    const offset = this.getScrollOffset()
+    return (this.physicalScrollOffset ?? this.toPhysicalOffset(offset)) - offset
+  }
+
+  private updateIsAtEnd = () => {
+    this.isAtEnd =
+      this.getEndOffset() - this.getScrollOffset() <=
+      this.options.atEndThreshold
+    if (this.isAtEnd) {
+      this.followingEnd = true
+    }
+  }
+
+  /** Returns the lane count, derived from the cross size when responsive */
+  getLanes = memo(
+    () => [
+      this.options.lanes,
+      this.options.minLaneSize,
+      this.options.maxLaneSize,
+      this.options.gap,
+      this.getCrossSize(),
+    ],
+    (lanes, minLaneSize, maxLaneSize, gap, crossSize) => {
+      if (minLaneSize === undefined && maxLaneSize === undefined) {
+        return lanes
+      }
+
+      // Lanes are separated by `gap`, so n lanes of size s take
+      // n * (s + gap) - gap
+      let count = 1
+      if (maxLaneSize !== undefined && maxLaneSize > 0) {
+        count = Math.ceil((crossSize + gap) / (maxLaneSize + gap))
+      }
+      if (minLaneSize !== undefined && minLaneSize > 0) {
+        const maxCount = Math.floor((crossSize + gap) / (minLaneSize + gap))
+        count =
+          maxLaneSize === undefined ? maxCount : Math.min(count, maxCount)
+      }
+
+      return Math.max(1, count)
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getLanes',
+      debug: () => this.options.debug,
+    },
+  )
+
+  private getCrossSize = () => {
+    if (!this.options.enabled) {
+      return 0
+    }
+
+    const rect = this.scrollRect ?? this.options.initialRect
+
+    return rect[this.options.horizontal ? 'height' : 'width']
+  }
+
+  /**
+   * Captures the first rendered item and its distance to the scroll offset,
+   * so the position can be restored after the layout changes.
+   */
+  private captureScrollAnchor = (): ScrollAnchor | null => {
+    const range = this.calculateRange()
+    if (!range) return null
+    const item = this.getMeasurement(range.startIndex)
+    if (!item) return null
+
+    return {
+      index: item.index,
+      key: item.key,
+      offset: item.start - this.getScrollOffset(),
+    }
+  }
+
+  /**
+   * Moves the scroll offset so the anchored item, found by key, is back at
+   * its captured distance. The element itself is scrolled by `_willUpdate`,
+   * once the new layout has rendered. Returns whether the offset changed.
+   */
+  private restoreScrollAnchor = (anchor: ScrollAnchor, indexShift = 0) => {
+    const index = this.findIndexForKey(anchor.key, [
+      anchor.index + indexShift,
+      anchor.index,
+    ])
+    const item = index === undefined ? undefined : this.getMeasurement(index)
+    if (!item) return false
+
+    const offset = Math.max(0, item.start - anchor.offset)
+    if (offset === this.getScrollOffset()) return false
+
+    this.scrollOffset = offset
+    this.scrollAdjustments = 0
+    this.pendingScrollOffset = offset
+    return true
+  }
+
+  private updateScrollMargin = (scrollMargin: number) => {
+    const previous = this.options.scrollMargin
+    const isInitial = this.trackedScrollMargin === null
+    this.trackedScrollMargin = scrollMargin
+    if (scrollMargin === previous) return
+
+    // Content before the list resized out of view: keep the viewport on the
+    // same item. While the start of the list is in view, let the list move.
+    const anchor =
+      !isInitial && this.getScrollOffset() > previous
+        ? this.captureScrollAnchor()
+        : null
+    this.options.scrollMargin = scrollMargin
+    if (anchor && this.restoreScrollAnchor(anchor)) {
+      this.flushPendingScrollOffset()
+    }
+    this.notify(false)
+  }
+
+  private flushPendingScrollOffset = () => {
+    if (this.pendingScrollOffset === null || !this.scrollElement) return
+
+    this._scrollToOffset(this.pendingScrollOffset, {
+      adjustments: undefined,
+      behavior: undefined,
+    })
+    this.pendingScrollOffset = null
+  }
+
+  // Checks the likely indexes first, then scans the whole list
+  private findIndexForKey = (key: Key, candidates: Array<number>) => {
+    const { count, getItemKey } = this.options
+    const candidate = candidates.find(
+      (index) => index >= 0 && index < count && getItemKey(index) === key,
+    )
+    if (candidate !== undefined) {
+      return candidate
+    }
+
+    for (let index = 0; index < count; index++) {
+      if (getItemKey(index) === key) {
+        return index
+      }
+    }
+    return undefined
+  }
+
+  private getScrollOffset = () => {
+    if (!this.options.enabled) {
+      this.scrollOffset = null
+      return 0
+    }
+
+    this.scrollOffset =
+      this.scrollOffset ??
+      (this.options.anchorToEnd
+        ? this.getEndOffset()
+        : typeof this.options.initialOffset === 'function'
+          ? this.options.initialOffset()
+          : this.options.initialOffset)
+
+    return this.scrollOffset
+  }
+
+  private getMeasurementOptions = memo(
+    () => [
+      this.options.count,
+      this.options.paddingStart,
+      this.options.scrollMargin,
+      this.options.getItemKey,
+      this.options.enabled,
+      this.options.gap,
+      this.getLanes(),
+      this.options.lazyMeasurements,
+    ],
+    (
+      count,
+      paddingStart,
+      scrollMargin,
+      getItemKey,
+      enabled,
+      gap,
+      lanes,
+      lazyMeasurements,
+    ) => {
+      this.pendingMeasuredCacheIndexes = []
+      return {
+        count,
+        paddingStart,
+        scrollMargin,
+        getItemKey,
+        enabled,
+        gap,
+        lanes,
+        lazyMeasurements,
+      }
+    },
+    {
+      key: false,
+    },
+  )
+
+  private getCachedSize = (key: Key) =>
+    this.itemSizeCache.get(key) ?? this.importedSizeCache.get(String(key))
+
+  // Estimate of an unmeasured item, learned from measured items when
+  // `adaptiveEstimate` is enabled
+  private getEstimatedSize = (index: number) => {
+    if (this.options.adaptiveEstimate) {
+      const estimate = this.adaptiveEstimates.get(
+        this.options.getItemType(index),
+      )
+      if (estimate) {
+        return estimate.size
+      }
+    }
+    return this.options.estimateSize(index)
+  }
+
+  /**
+   * Builds the sparse size index used by `lazyMeasurements`. Measured sizes
+   * are carried over for the indexes that were measured before, as long as
+   * the key at that index still has a cached size.
+   */
+  private buildSparseSizeIndex = (
+    count: number,
+    getItemKey: (index: number) => Key,
+    gap: number,
+  ) => {
+    const estimate = count > 0 ? this.getEstimatedSize(0) : 0
+    const sizeIndex = new SparseSizeIndex(count, estimate + gap)
+    const candidates =
+      this.sizeIndex instanceof SparseSizeIndex
+        ? this.sizeIndex.getStoredIndexes()
+        : []
+
+    const apply = (index: number) => {
+      if (index >= count) return
+      const measuredSize = this.getCachedSize(getItemKey(index))
+      if (typeof measuredSize === 'number') {
+        sizeIndex.set(index, measuredSize + gap)
+      }
+    }
+    candidates.forEach(apply)
+    this.options.initialMeasurementsCache.forEach((item) => apply(item.index))
+
+    return sizeIndex
+  }
+
+  private getMeasurements = memo(
+    () => [this.getMeasurementOptions(), this.measurementsVersion],
+    (measurementOptions) => {
+      const {
+        count,
+        paddingStart,
+        scrollMargin,
+        getItemKey,
+        enabled,
+        gap,
+        lanes,
+        lazyMeasurements,
+      } = measurementOptions
+
+      if (!enabled) {
+        this.measurements = []
+        this.itemSizeCache.clear()
+        this.importedSizeCache.clear()
+        this.sizeIndex = null
+        return []
+      }
+
+      if (this.measurements.length === 0) {
+        this.measurements = this.options.initialMeasurementsCache
+        this.measurements.forEach((item) => {
+          this.itemSizeCache.set(item.key, item.size)
+        })
+      }
+
+      if (lanes === 1) {
+        // Items are materialized on demand by `getMeasurement`, so a resize
+        // only needs an O(log n) update of the size index
+        if (!this.sizeIndex || this.sizeIndexOptions !== measurementOptions) {
+          if (lazyMeasurements) {
+            this.sizeIndex = this.buildSparseSizeIndex(count, getItemKey, gap)
+          } else {
+            const sizes = new Float64Array(count)
+            for (let i = 0; i < count; i++) {
+              const measuredSize = this.getCachedSize(getItemKey(i))
+              sizes[i] =
+                (typeof measuredSize === 'number'
+                  ? measuredSize
+                  : this.getEstimatedSize(i)) + gap
+            }
+            this.sizeIndex = new FenwickTree(sizes)
+          }
+          this.sizeIndexOptions = measurementOptions
+          this.sizeIndexStart = paddingStart + scrollMargin
+          this.sizeIndexGap = gap
+        }
+
+        const measurements: Array<VirtualItem> = []
+        measurements.length = count
+        this.measurements = measurements
+        this.measurementsFilled = false
+
+        return measurements
+      }
+
+      this.sizeIndex = null
+
+      const min =
+        this.pendingMeasuredCacheIndexes.length > 0
+          ? Math.min(...this.pendingMeasuredCacheIndexes)
+          : 0
+      this.pendingMeasuredCacheIndexes = []
+
+      const measurements = this.measurements.slice(0, min)
+
+      if (this.laneAssignmentsLanes !== lanes) {
+        this.laneAssignments.clear()
+        this.laneAssignmentsLanes = lanes
+      }
+
+      // Drop the lane indexes from `min` on and find where each lane ends.
+      // Starts grow with the index within a lane, so its last item is the
+      // furthest one.
+      const laneIndexes = this.laneIndexes
+      laneIndexes.length = lanes
+      const laneEnds = Array<number | null>(lanes).fill(null)
+      for (let lane = 0; lane < lanes; lane++) {
+        const indexes = (laneIndexes[lane] ??= [])
+        while (indexes.length > 0 && indexes[indexes.length - 1]! >= min) {
+          indexes.pop()
+        }
+        const last = indexes[indexes.length - 1]
+        laneEnds[lane] = last === undefined ? null : measurements[last]!.end
+      }
+
+      for (let i = min; i < count; i++) {
+        const key = getItemKey(i)
+
+        const measuredSize = this.getCachedSize(key)
+        const size =
+          typeof measuredSize === 'number'
+            ? measuredSize
+            : this.getEstimatedSize(i)
+
+        let lane = this.options.getItemLane(i) ?? this.laneAssignments.get(key)
+        if (lane === undefined || lane < 0 || lane >= lanes) {
+          // Place the item in the currently shortest lane
+          lane = 0
+          for (let l = 1; l < lanes; l++) {
+            if ((laneEnds[l] ?? -Infinity) < (laneEnds[lane] ?? -Infinity)) {
+              lane = l
+            }
+          }
+        }
+        const laneEnd = laneEnds[lane] ?? null
+        const start =
+          laneEnd === null ? paddingStart + scrollMargin : laneEnd + gap
+        const end = start + size
+        laneEnds[lane] = end
+        laneIndexes[lane]!.push(i)
+
+        measurements[i] = {
+          index: i,
+          start,
+          size,
+          end,
+          key,
+          lane,
+        }
+      }
+
+      this.measurements = measurements
+
+      return measurements
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getMeasurements',
+      debug: () => this.options.debug,
+    },
+  )
+
+  /**
+   * Every item by index. Only the materialized items are defined with
+   * `lazyMeasurements`; use `getMeasurement` to read any other one.
+   */
+  get measurementsCache(): Array<VirtualItem> {
+    const measurements = this.getMeasurements()
+    const sizeIndex = this.sizeIndex
+    if (!(sizeIndex instanceof FenwickTree) || this.measurementsFilled) {
+      return measurements
+    }
+
+    const { getItemKey } = this.options
+    let start = this.sizeIndexStart
+    for (let index = 0; index < sizeIndex.length; index++) {
+      const size = sizeIndex.get(index) - this.sizeIndexGap
+      measurements[index] ??= {
+        index,
+        start,
+        size,
+        end: start + size,
+        key: getItemKey(index),
+        lane: 0,
+      }
+      start += size + this.sizeIndexGap
+    }
+    this.measurementsFilled = true
+
+    return measurements
+  }
+
+  /**
+   * Returns the measurement for an index, materializing it from the size
+   * index if it has not been read since the last change.
+   */
+  getMeasurement = (index: number): VirtualItem | undefined => {
+    const measurements = this.getMeasurements()
+    const cached = measurements[index]
+    if (
+      cached ||
+      !this.sizeIndex ||
+      index < 0 ||
+      index >= this.sizeIndex.length
+    ) {
+      return cached
+    }
+
+    const start = this.sizeIndexStart + this.sizeIndex.prefixSum(index)
+    const size = this.sizeIndex.get(index) - this.sizeIndexGap
+    const item: VirtualItem = {
+      index,
+      start,
+      size,
+      end: start + size,
+      key: this.options.getItemKey(index),
+      lane: 0,
+    }
+    measurements[index] = item
+
+    return item
+  }
+
+  private findNearestIndexForOffset = (offset: number) => {
+    const measurements = this.getMeasurements()
+    if (this.sizeIndex) {
+      return this.sizeIndex.search(offset - this.sizeIndexStart)
+    }
+    return findNearestBinarySearch(
+      0,
+      measurements.length - 1,
+      (index: number) => notUndefined(this.getMeasurement(index)).start,
+      offset,
+    )
+  }
+
+  calculateRange = memo(
+    () => [
+      this.getMeasurements(),
+      this.getSize(),
+      this.getScrollOffset(),
+      this.getLanes(),
+    ],
+    (measurements, outerSize, scrollOffset, lanes) => {
+      return (this.range =
+        measurements.length > 0 && outerSize > 0
+          ? calculateRange({
+              itemCount: measurements.length,
+              getMeasurement: (index) =>
+                notUndefined(this.getMeasurement(index)),
+              findNearestIndex: this.findNearestIndexForOffset,
+              laneIndexes: this.laneIndexes,
+              outerSize,
+              scrollOffset,
+              lanes,
+            })
+          : null)
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'calculateRange',
+      debug: () => this.options.debug,
+    },
+  )
+
+  getVirtualIndexes = memo(
+    () => {
+      let startIndex: number | null = null
+      let endIndex: number | null = null
+      const range = this.calculateRange()
+      if (range) {
+        startIndex = range.startIndex
+        endIndex = range.endIndex
+      }
+      this.maybeNotify.updateDeps([
+        this.isScrolling,
+        startIndex,
+        endIndex,
+        this.getStickyOffset(),
+        this.isAtEnd,
+        this.isScrollingFast,
+        this.getScrollShift(),
+      ])
+      const [overscanStart, overscanEnd] =
+        startIndex !== null && endIndex !== null
+          ? this.getOverscan(startIndex, endIndex)
+          : [this.options.overscan, this.options.overscan]
+      return [
+        this.options.rangeExtractor,
+        this.options.overscan,
+        this.options.count,
+        startIndex,
+        endIndex,
+        this.getActiveStickyIndex(),
+        overscanStart,
+        overscanEnd,
+      ]
+    },
+    (
+      rangeExtractor,
+      overscan,
+      count,
+      startIndex,
+      endIndex,
+      activeSticky,
+      overscanStart,
+      overscanEnd,
+    ) => {
+      if (startIndex === null || endIndex === null) {
+        return []
+      }
+
+      const indexes = rangeExtractor({
+        startIndex,
+        endIndex,
+        overscan,
+        count,
+        overscanStart,
+        overscanEnd,
+      })
+
+      // The active sticky item is rendered even when it's out of range
+      if (activeSticky !== null && !indexes.includes(activeSticky)) {
+        const position = lowerBound(
+          indexes.length,
+          (k) => indexes[k]! > activeSticky,
+        )
+        return [
+          ...indexes.slice(0, position),
+          activeSticky,
+          ...indexes.slice(position),
+        ]
+      }
+
+      return indexes
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getVirtualIndexes',
+      debug: () => this.options.debug,
+    },
+  )
+
+  indexFromElement = (node: TItemElement) => {
+    const attributeName = this.options.indexAttribute
+    const indexStr = node.getAttribute(attributeName)
+
+    if (!indexStr) {
+      console.warn(
+        `Missing attribute name '${attributeName}={index}' on measured element.`,
+      )
+      return -1
+    }
+
+    return parseInt(indexStr, 10)
+  }
+
+  private _measureElement = (
+    node: TItemElement,
+    entry: ResizeObserverEntry | undefined,
+  ) => {
+    const index = this.indexFromElement(node)
+    const item = this.getMeasurement(index)
+    if (!item) {
+      return
+    }
+    const key = item.key
+    const prevNode = this.elementsCache.get(key)
+
+    if (prevNode !== node) {
+      if (prevNode) {
+        this.observer.unobserve(prevNode)
+      }
+      this.observer.observe(node)
+      this.elementsCache.set(key, node)
+    }
+
+    if (node.isConnected) {
+      this.resizeItem(index, this.options.measureElement(node, entry, this))
+    }
+  }
+
+  resizeItem = (index: number, size: number) => {
+    const item = this.getMeasurement(index)
+    if (!item) {
+      return
+    }
+    const itemSize = this.itemSizeCache.get(item.key) ?? item.size
+    const delta = size - itemSize
+
+    const estimateChanged = this.recordMeasurement(item, size)
+
+    // Once measured, an item keeps its lane so later measurements of the
+    // items before it don't shuffle the layout
+    if (!this.sizeIndex) {
+      this.laneAssignments.set(item.key, item.lane)
+    }
+
+    if (delta !== 0) {
+      // While following the end, `_willUpdate` pins it after the resize
+      const isFollowingEnd = this.options.anchorToEnd && this.followingEnd
+      if (
+        !isFollowingEnd &&
+        (this.shouldAdjustScrollPositionOnItemSizeChange !== undefined
+          ? this.shouldAdjustScrollPositionOnItemSizeChange(item, delta, this)
+          : item.start < this.getScrollOffset() + this.scrollAdjustments)
+      ) {
+        if (process.env.NODE_ENV !== 'production' && this.options.debug) {
+          console.info('correction', delta)
+        }
+
+        if (this.scrollAnimation) {
+          // The next frame applies the correction by shifting the origin
+          this.scrollAnimation.from += delta
+        } else {
+          this._scrollToOffset(this.getScrollOffset(), {
+            adjustments: (this.scrollAdjustments += delta),
+            behavior: undefined,
+          })
+        }
+      }
+
+      if (this.sizeIndex) {
+        this.sizeIndex.set(item.index, size + this.sizeIndexGap)
+      } else {
+        this.pendingMeasuredCacheIndexes.push(item.index)
+      }
+      this.itemSizeCache.set(item.key, size)
+      this.measurementsVersion++
+
+      this.emit('itemResize', { item, size, delta })
+    } else if (
+      this.options.adaptiveEstimate &&
+      !this.itemSizeCache.has(item.key)
+    ) {
+      // Keep the measured size when the estimates of its type change
+      this.sizeIndex?.set(item.index, size + this.sizeIndexGap)
+      this.itemSizeCache.set(item.key, size)
+    }
+
+    if (estimateChanged) {
+      this.applyAdaptiveEstimates()
+    }
+    if (delta !== 0 || estimateChanged) {
+      this.notify(false)
+    }
+  }
+
+  /**
+   * Lays out the unmeasured items with the updated estimates. The items
+   * above the viewport may change size too, so the scroll offset follows
+   * the item at the top of the viewport.
+   */
+  private applyAdaptiveEstimates = () => {
+    const index = this.findNearestIndexForOffset(
+      this.getScrollOffset() + this.scrollAdjustments,
+    )
+    const previousStart = this.getMeasurement(index)?.start
+
+    this.sizeIndex = null
+    this.pendingMeasuredCacheIndexes = []
+    this.measurementsVersion++
+
+    const start = this.getMeasurement(index)?.start
+    const delta =
+      start === undefined || previousStart === undefined
+        ? 0
+        : start - previousStart
+    // While following the end, `_willUpdate` pins it after the resize
+    if (delta === 0 || (this.options.anchorToEnd && this.followingEnd)) return
+
+    if (this.scrollAnimation) {
+      this.scrollAnimation.from += delta
+    } else {
+      this._scrollToOffset(this.getScrollOffset(), {
+        adjustments: (this.scrollAdjustments += delta),
+        behavior: undefined,
+      })
+    }
+  }
+
+  /**
+   * Records a measured size for `getMeasurementStats` and `adaptiveEstimate`.
+   * Returns whether the adaptive estimate of the item's type changed.
+   */
+  private recordMeasurement = (item: VirtualItem, size: number) => {
+    const previous = this.measuredItems.get(item.key)
+    const type = previous?.type ?? this.options.getItemType(item.index)
+    const stats = this.sizeStatsByType.get(type) ?? { count: 0, sum: 0 }
+
+    if (previous) {
+      stats.sum += size - previous.size
+    } else {
+      stats.count++
+      stats.sum += size
+      this.estimateErrorSum += Math.abs(size - item.size)
+    }
+    this.sizeStatsByType.set(type, stats)
+    this.measuredItems.set(item.key, { type, size })
+
+    if (!this.options.adaptiveEstimate) return false
+
+    // Every change of an estimate rebuilds the layout in O(n), so it's only
+    // updated each time the number of measured items of its type doubles.
+    // Rounding skips the rebuilds for sub-pixel changes.
+    const estimate = this.adaptiveEstimates.get(type)
+    if (estimate && stats.count < estimate.count * 2) return false
+
+    const estimatedSize = Math.round(stats.sum / stats.count)
+    this.adaptiveEstimates.set(type, {
+      size: estimatedSize,
+      count: stats.count,
+    })
+    return estimatedSize !== estimate?.size
+  }
+
+  /** Returns statistics about the sizes measured so far */
+  getMeasurementStats = (): MeasurementStats => {
+    let measuredCount = 0
+    let sum = 0
+    this.sizeStatsByType.forEach((stats) => {
+      measuredCount += stats.count
+      sum += stats.sum
+    })
+
+    return {
+      measuredCount,
+      mean: measuredCount > 0 ? sum / measuredCount : 0,
+      estimateError:
+        measuredCount > 0 ? this.estimateErrorSum / measuredCount : 0,
+    }
+  }
+
+  measureElement = (node: TItemElement | null | undefined) => {
+    if (!node) {
+      this.elementsCache.forEach((cached, key) => {
+        if (!cached.isConnected) {
+          this.observer.unobserve(cached)
+          this.elementsCache.delete(key)
+        }
+      })
+      return
+    }
+
+    this._measureElement(node, undefined)
+  }
+
+  /** Returns the sticky item pinned at the start of the viewport, if any */
+  getActiveStickyIndex = () => {
+    const range = this.calculateRange()
+    const stickyIndexes = this.getStickyIndexes()
+    if (!range || stickyIndexes.length === 0) {
+      return null
+    }
+
+    const position =
+      lowerBound(
+        stickyIndexes.length,
+        (k) => stickyIndexes[k]! > range.startIndex,
+      ) - 1
+
+    return position < 0 ? null : stickyIndexes[position]!
+  }
+
+  private getStickyIndexes = memo(
+    () => [this.options.stickyIndexes, this.options.count],
+    (stickyIndexes, count) =>
+      stickyIndexes
+        .filter((index) => index >= 0 && index < count)
+        .sort((a, b) => a - b),
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getStickyIndexes',
+      debug: () => this.options.debug,
+    },
+  )
+
+  // Offset of the active sticky item once the next sticky item reaches it
+  private getStickyOffset = () => {
+    const activeSticky = this.getActiveStickyIndex()
+    if (activeSticky === null) {
+      return 0
+    }
+
+    const stickyIndexes = this.getStickyIndexes()
+    const next =
+      stickyIndexes[
+        lowerBound(
+          stickyIndexes.length,
+          (k) => stickyIndexes[k]! > activeSticky,
+        )
+      ]
+    if (next === undefined) {
+      return 0
+    }
+
+    const active = notUndefined(this.getMeasurement(activeSticky))
+    const nextItem = notUndefined(this.getMeasurement(next))
+
+    return Math.min(0, nextItem.start - this.getScrollOffset() - active.size)
+  }
+
+  // Index of each section header, followed by the index ending the last
+  // section
+  private getSectionStarts = memo(
+    () => [this.options.sectionCounts, this.options.count],
+    (sectionCounts, count) => {
+      const starts: Array<number> = []
+      let index = 0
+      for (const sectionCount of sectionCounts) {
+        if (index >= count) break
+        starts.push(index)
+        index += sectionCount + 1
+      }
+      if (starts.length > 0) {
+        starts.push(Math.min(index, count))
+      }
+
+      if (
+        process.env.NODE_ENV !== 'production' &&
+        sectionCounts.length > 0 &&
+        index !== count
+      ) {
+        console.warn(
+          `The sections describe ${index} items including headers, but count is ${count}.`,
+        )
+      }
+
+      return starts
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getSectionStarts',
+      debug: () => this.options.debug,
+    },
+  )
+
+  getVirtualItems = memo(
+    () => [
+      this.getVirtualIndexes(),
+      this.getMeasurements(),
+      this.getStickyIndexes(),
+      this.getActiveStickyIndex(),
+      this.getStickyOffset(),
+      this.getSectionStarts(),
+      this.getScrollShift(),
+    ],
+    (
+      indexes,
+      _measurements,
+      stickyIndexes,
+      activeSticky,
+      stickyOffset,
+      sectionStarts,
+      scrollShift,
+    ) => {
+      const virtualItems: Array<VirtualItem> = []
+
+      for (let k = 0, len = indexes.length; k < len; k++) {
+        const i = indexes[k]!
+        let measurement = this.getMeasurement(i)!
+
+        const section = this.getSectionForIndex(i)
+        if (section !== undefined) {
+          measurement = {
+            ...measurement,
+            section,
+            sectionHeader: sectionStarts[section] === i,
+          }
+        }
+
+        const stickyPosition = lowerBound(
+          stickyIndexes.length,
+          (position) => stickyIndexes[position]! >= i,
+        )
+        if (stickyIndexes[stickyPosition] === i) {
+          const isActive = i === activeSticky
+          measurement = {
+            ...measurement,
+            sticky: true,
+            activeSticky: isActive,
+            stickyOffset: isActive ? stickyOffset : 0,
+          }
+        }
+
+        if (scrollShift !== 0) {
+          measurement = {
+            ...measurement,
+            start: measurement.start + scrollShift,
+            end: measurement.end + scrollShift,
+          }
+        }
+
+        virtualItems.push(measurement)
+      }
+
+      return virtualItems
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getVirtualItems',
+      debug: () => this.options.debug,
+    },
+  )
+
+  /**
+   * Items intersecting the viewport, without overscan, in index order. The
+   * viewport excludes `scrollPaddingStart` and `scrollPaddingEnd`, so items
+   * hidden behind a sticky header or footer don't count as visible.
+   */
+  getVisibleItems = memo(
+    () => [
+      this.calculateRange(),
+      this.getScrollOffset(),
+      this.getSize(),
+      this.options.scrollPaddingStart,
+      this.options.scrollPaddingEnd,
+    ],
+    (range, scrollOffset, size, scrollPaddingStart, scrollPaddingEnd) => {
+      const visibleItems: Array<VisibleItem> = []
+      if (!range) return visibleItems
+
+      const viewStart = scrollOffset + scrollPaddingStart
+      const viewEnd = scrollOffset + size - scrollPaddingEnd
+
+      for (let i = range.startIndex; i <= range.endIndex; i++) {
+        const item = this.getMeasurement(i)!
+        const visibleSize =
+          Math.min(item.end, viewEnd) - Math.max(item.start, viewStart)
+
+        if (item.size > 0 ? visibleSize > 0 : visibleSize >= 0) {
+          visibleItems.push({
+            ...item,
+            visibleRatio: item.size > 0 ? visibleSize / item.size : 1,
+          })
+        }
+      }
+
+      return visibleItems
+    },
+    {
+      key: process.env.NODE_ENV !== 'production' && 'getVisibleItems',
+      debug: () => this.options.debug,
+    },
+  )
+
+  /** Lowest index whose item is entirely inside the viewport */
+  getFirstFullyVisibleIndex = () =>
+    this.getVisibleItems().find((item) => item.visibleRatio === 1)?.index ??
+    null
+
+  /** Highest index whose item is entirely inside the viewport */
+  getLastFullyVisibleIndex = () => {
+    const visibleItems = this.getVisibleItems()
+    for (let k = visibleItems.length - 1; k >= 0; k--) {
+      if (visibleItems[k]!.visibleRatio === 1) return visibleItems[k]!.index
+    }
+    return null
+  }
+
+  getVirtualItemForOffset = (offset: number) => {
+    const measurements = this.getMeasurements()
+    if (measurements.length === 0) {
+      return undefined
+    }
+    return notUndefined(
+      this.getMeasurement(this.findNearestIndexForOffset(offset)),
+    )
+  }
+
+  getOffsetForAlignment = (
+    toOffset: number,
+    align: ScrollAlignment,
+    itemSize = 0,
+  ) => {
+    const size = this.getSize()
+    const scrollOffset = this.getScrollOffset()
+
+    if (align === 'auto') {
+      align = toOffset >= scrollOffset + size ? 'end' : 'start'
+    }
+
+    if (align === 'center') {
+      // When aligning to a particular item (e.g. with scrollToIndex),
+      // adjust offset by the size of the item to center on the item
+      toOffset += (itemSize - size) / 2
+    } else if (align === 'end') {
+      toOffset -= size
+    }
+
+    return Math.max(Math.min(this.getMaxScrollOffset(), toOffset), 0)
+  }
+
+  private getMaxScrollOffset = () => {
+    const scrollSizeProp = this.options.horizontal
+      ? 'scrollWidth'
+      : 'scrollHeight'
+    const scrollSize = this.scrollElement
+      ? 'document' in this.scrollElement
+        ? this.scrollElement.document.documentElement[scrollSizeProp]
+        : this.scrollElement[scrollSizeProp]
+      : 0
+
+    return this.toVirtualOffset(scrollSize - this.getSize())
+  }
+
+  getOffsetForIndex = (index: number, align: ScrollAlignment = 'auto') => {
+    index = Math.max(0, Math.min(index, this.options.count - 1))
+
+    const item = this.getMeasurement(index)
+    if (!item) {
+      return undefined
+    }
+
+    const size = this.getSize()
+    const scrollOffset = this.getScrollOffset()
+
+    if (align === 'auto') {
+      if (item.end >= scrollOffset + size - this.options.scrollPaddingEnd) {
+        align = 'end'
+      } else if (item.start <= scrollOffset + this.options.scrollPaddingStart) {
+        align = 'start'
+      } else {
+        return [scrollOffset, align] as const
+      }
+    }
+
+    const toOffset =
+      align === 'end'
+        ? item.end + this.options.scrollPaddingEnd
+        : item.start - this.options.scrollPaddingStart
+
+    return [
+      this.getOffsetForAlignment(toOffset, align, item.size),
+      align,
+    ] as const
+  }
+
+  /** Returns the index of the section containing `index`, if any */
+  getSectionForIndex = (index: number) => {
+    const sectionStarts = this.getSectionStarts()
+    if (sectionStarts.length === 0 || index < 0) {
+      return undefined
+    }
+    if (index >= sectionStarts[sectionStarts.length - 1]!) {
+      return undefined
+    }
+
+    return (
+      lowerBound(sectionStarts.length, (k) => sectionStarts[k]! > index) - 1
+    )
+  }
+
+  /** Returns the flat index range of a section, header included */
+  getSectionRange = (sectionIndex: number): SectionRange | undefined => {
+    const sectionStarts = this.getSectionStarts()
+    if (sectionIndex < 0 || sectionIndex >= sectionStarts.length - 1) {
+      return undefined
+    }
+
+    return {
+      startIndex: sectionStarts[sectionIndex]!,
+      endIndex: sectionStarts[sectionIndex + 1]! - 1,
+    }
+  }
+
+  private isDynamicMode = () => this.elementsCache.size > 0
+
+  // Time of the scroll element's window, which also runs our timers
+  private now = () => (this.targetWindow?.Date ?? Date).now()
+
+  private cancelScrollToIndex = () => {
+    if (this.scrollToIndexTimeoutId !== null && this.targetWindow) {
+      this.targetWindow.clearTimeout(this.scrollToIndexTimeoutId)
+      this.scrollToIndexTimeoutId = null
+    }
+    if (this.scrollAnimation) {
+      this.targetWindow?.cancelAnimationFrame(this.scrollAnimation.frameId)
+      this.scrollAnimation = null
+    }
+    this.finishScrollCommand(null)
+  }
+
+  private prefersReducedMotion = () => {
+    const targetWindow = this.targetWindow
+    return (
+      this.options.respectReducedMotion &&
+      !!targetWindow &&
+      typeof targetWindow.matchMedia === 'function' &&
+      targetWindow.matchMedia('(prefers-reduced-motion: reduce)').matches
+    )
+  }
+
+  /**
+   * Decides whether a scroll command is animated by the virtualizer and
+   * which behavior is passed to `scrollToFn` otherwise. Native smooth
+   * scrolling can't follow the corrections `resizeItem` makes along the way,
+   * so dynamic lists animate frame by frame instead.
+   */
+  private resolveScrollOptions = ({
+    behavior,
+    duration,
+    easing,
+  }: ScrollToOptions) => {
+    if (this.prefersReducedMotion()) {
+      return {
+        animate: false,
+        behavior: behavior === 'smooth' ? ('auto' as const) : behavior,
+      }
+    }
+
+    return {
+      animate:
+        !!this.targetWindow &&
+        (duration !== undefined ||
+          easing !== undefined ||
+          (behavior === 'smooth' && this.isDynamicMode())),
+      behavior,
+    }
+  }
+
+  /**
+   * Animates the scroll offset towards `getTarget()`, which is read again on
+   * every frame so the animation retargets as items get measured. Once the
+   * time is up, it keeps following the target until it's stable and
+   * `isRendered` returns true.
+   */
+  private animateScroll = (
+    getTarget: () => number,
+    {
+      duration = DEFAULT_SCROLL_DURATION,
+      easing = easeInOutCubic,
+    }: ScrollToOptions,
+    isRendered: () => boolean,
+    onSettled: () => void,
+  ) => {
+    const targetWindow = this.targetWindow
+    if (!targetWindow) return
+
+    const animation: ScrollAnimation = {
+      from: this.getScrollOffset(),
+      startTime: null,
+      lastTarget: null,
+      frameId: 0,
+      settleFrames: 0,
+    }
+
+    const step = (time: number) => {
+      animation.startTime ??= time
+      const progress =
+        duration > 0 ? Math.min(1, (time - animation.startTime) / duration) : 1
+      const target = getTarget()
+      const offset =
+        progress < 1
+          ? animation.from + (target - animation.from) * easing(progress)
+          : target
+
+      this._scrollToOffset(offset, { adjustments: undefined, behavior: 'auto' })
+
+      const isStable = animation.lastTarget === target
+      animation.lastTarget = target
+      if (progress === 1) animation.settleFrames++
+      if (
+        progress < 1 ||
+        ((!isStable || (this.isDynamicMode() && !isRendered())) &&
+          animation.settleFrames < MAX_SCROLL_CHECKS)
+      ) {
+        animation.frameId = targetWindow.requestAnimationFrame(step)
+      } else {
+        this.scrollAnimation = null
+        onSettled()
+      }
+    }
+
+    this.scrollAnimation = animation
+    animation.frameId = targetWindow.requestAnimationFrame(step)
+  }
+
+  /**
+   * Starts a scroll command, cancelling the previous one. The returned
+   * promise is resolved by `finishScrollCommand`, with `null` when the
+   * command is cancelled by another one or by a user interaction with the
+   * scroll element (wheel, touch, pointer or keyboard).
+   */
+  private startScrollCommand = () => {
+    this.cancelScrollToIndex()
+
+    return new Promise<VirtualItem | null>((resolve) => {
+      const scrollElement = this.scrollElement
+      const cancel = () => this.cancelScrollToIndex()
+      SCROLL_COMMAND_CANCEL_EVENTS.forEach((type) =>
+        scrollElement?.addEventListener(type, cancel, { passive: true }),
+      )
+
+      this.scrollCommand = {
+        resolve,
+        cleanup: () =>
+          SCROLL_COMMAND_CANCEL_EVENTS.forEach((type) =>
+            scrollElement?.removeEventListener(type, cancel),
+          ),
+      }
+    })
+  }
+
+  private finishScrollCommand = (item: VirtualItem | null) => {
+    const command = this.scrollCommand
+    this.scrollCommand = null
+    command?.cleanup()
+    command?.resolve(item)
+  }
+
+  /**
+   * Scrolls to `getTarget()` and settles the current scroll command once the
+   * offset has reached the latest target and, in dynamic mode, `isRendered`
+   * returns true.
+   */
+  private runScrollCommand = (
+    getTarget: () => number,
+    options: ScrollToOptions,
+    getItem: () => VirtualItem | undefined,
+    isRendered: () => boolean = () => true,
+  ) => {
+    const { animate, behavior } = this.resolveScrollOptions(options)
+    const settle = () => this.finishScrollCommand(getItem() ?? null)
+
+    if (animate) {
+      this.animateScroll(getTarget, options, isRendered, settle)
+      return
+    }
+
+    this._scrollToOffset(getTarget(), { adjustments: undefined, behavior })
+
+    const targetWindow = this.targetWindow
+    if (!targetWindow) {
+      settle()
+      return
+    }
+
+    let checks = 0
+    let previousOffset: number | null = null
+    const check = () => {
+      this.scrollToIndexTimeoutId = null
+      checks++
+
+      const target = getTarget()
+      const scrollOffset = this.getScrollOffset()
+      // A physical pixel spans several virtual ones in scaled coordinates.
+      // The browser may also stop short of the target, e.g. at the end.
+      const isReached =
+        Math.abs(target - scrollOffset) < Math.max(1, this.getScrollScale()) ||
+        scrollOffset === previousOffset
+      if (
+        (isReached && (!this.isDynamicMode() || isRendered())) ||
+        checks >= MAX_SCROLL_CHECKS
+      ) {
+        settle()
+        return
+      }
+      previousOffset = scrollOffset
+
+      // The target moves while items get measured, follow it unless the
+      // browser is still animating a native smooth scroll
+      if (behavior !== 'smooth' && this.isDynamicMode()) {
+        this._scrollToOffset(target, { adjustments: undefined, behavior })
+      }
+      this.scrollToIndexTimeoutId = targetWindow.setTimeout(
+        check,
+        SCROLL_CHECK_DELAY,
+      )
+    }
+    this.scrollToIndexTimeoutId = targetWindow.setTimeout(
+      check,
+      SCROLL_CHECK_DELAY,
+    )
+  }
+
+  scrollToOffset = (
+    toOffset: number,
+    { align = 'start', ...options }: ScrollToOffsetOptions = {},
+  ) => {
+    const settled = this.startScrollCommand()
+
+    const offset = this.getOffsetForAlignment(toOffset, align)
+    this.runScrollCommand(
+      () => offset,
+      options,
+      () => this.getVirtualItemForOffset(offset),
+    )
+
+    return settled
+  }
+
+  scrollToIndex = (
+    index: number,
+    { align: initialAlign = 'auto', ...options }: ScrollToIndexOptions = {},
+  ) => {
+    index = Math.max(0, Math.min(index, this.options.count - 1))
+
+    const settled = this.startScrollCommand()
+
+    const offsetAndAlign = this.getOffsetForIndex(index, initialAlign)
+    if (!offsetAndAlign) {
+      this.finishScrollCommand(null)
+      return settled
+    }
+
+    const [offset, align] = offsetAndAlign
+    let target = offset
+    this.runScrollCommand(
+      () => (target = this.getOffsetForIndex(index, align)?.[0] ?? target),
+      options,
+      () => this.getMeasurement(index),
+      () => this.elementsCache.has(this.options.getItemKey(index)),
+    )
+
+    return settled
+  }
+
+  /** Scrolls to the header of a section, aligned to the start by default */
+  scrollToSection = (
+    sectionIndex: number,
+    { align = 'start', ...options }: ScrollToIndexOptions = {},
+  ) => {
+    const range = this.getSectionRange(sectionIndex)
+    if (!range) return Promise.resolve(null)
+
+    return this.scrollToIndex(range.startIndex, { align, ...options })
+  }
+
+  scrollBy = (
+    delta: number,
+    { align: _align, ...options }: ScrollToOffsetOptions = {},
+  ) => {
+    const settled = this.startScrollCommand()
+
+    const offset = Math.max(
+      Math.min(this.getScrollOffset() + delta, this.getMaxScrollOffset()),
+      0,
+    )
+    this.runScrollCommand(
+      () => offset,
+      options,
+      () => this.getVirtualItemForOffset(offset),
+    )
+
+    return settled
+  }
+
+  /**
+   * Size (px) of the scrollable content, capped at `maxScrollSize`. Render
+   * the container at this size; other offsets of the API, like
+   * `getOffsetForIndex` or `scrollOffset`, cover the whole uncapped list.
+   */
+  getTotalSize = () =>
+    Math.min(this.getContentSize(), this.options.maxScrollSize)
+
+  private getContentSize = () => {
+    const measurements = this.getMeasurements()
+
+    let end: number
+    // If there are no measurements, set the end to paddingStart
+    // If there is only one lane, use the last measurement's end
+    // Otherwise find the maximum end value among all measurements
+    if (measurements.length === 0) {
+      end = this.options.paddingStart
+    } else if (this.sizeIndex) {
+      end =
+        this.sizeIndexStart + this.sizeIndex.total() - this.sizeIndexGap
+    } else {
+      // Lanes can be unbalanced, so take the furthest end among the last
+      // item of every lane
+      end = 0
+      this.laneIndexes.forEach((indexes) => {
+        const last = indexes[indexes.length - 1]
+        if (last !== undefined) {
+          end = Math.max(end, measurements[last]!.end)
+        }
+      })
+    }
+
+    return Math.max(
+      end -
+        this.options.scrollMargin +
+        this.options.paddingEnd +
+        this.getRemainingSize(),
+      0,
+    )
+  }
+
+  private _scrollToOffset = (
+    offset: number,
+    {
+      adjustments,
+      behavior,
+    }: {
+      adjustments: number | undefined
+      behavior: ScrollBehavior | undefined
+    },
+  ) => {
+    const scale = this.getScrollScale()
+    const physicalOffset = this.toPhysicalOffset(offset)
+    const physicalAdjustments =
+      adjustments === undefined ? undefined : adjustments / scale
+    if (scale !== 1) {
+      this.physicalScrollOffset = physicalOffset + (physicalAdjustments ?? 0)
+    }
+
+    this.options.scrollToFn(
+      physicalOffset,
+      { behavior, adjustments: physicalAdjustments },
+      this,
+    )
+  }
+
+  /** Returns the known item sizes by stringified key */
+  exportSizeCache = (): SizeCache => {
+    const sizeCache: SizeCache = Object.fromEntries(this.importedSizeCache)
+    this.itemSizeCache.forEach((size, key) => {
+      sizeCache[String(key)] = size
+    })
+    return sizeCache
+  }
+
+  /**
+   * Merges sizes returned by `exportSizeCache`. Items are matched by key, so
+   * the order and count of items may have changed since the export.
+   */
+  importSizeCache = (sizeCache: SizeCache) => {
+    Object.entries(sizeCache).forEach(([key, size]) => {
+      this.importedSizeCache.set(key, size)
+    })
+    this.sizeIndex = null
+    this.pendingMeasuredCacheIndexes = []
+    this.measurementsVersion++
+    this.notify(false)
+  }
+
+  /** Captures the visual scroll position along with the known item sizes */
+  getScrollSnapshot = (): ScrollSnapshot | null => {
+    const anchor = this.captureScrollAnchor()
+    if (!anchor) return null
+
+    return {
+      anchorKey: anchor.key,
+      anchorIndex: anchor.index,
+      offsetWithinItem: -anchor.offset,
+      sizeCache: this.exportSizeCache(),
+    }
+  }
+
+  /** Brings back the position captured by `getScrollSnapshot` */
+  restoreScrollSnapshot = (snapshot: ScrollSnapshot) => {
+    this.importSizeCache(snapshot.sizeCache)
+    this.applyScrollSnapshot(snapshot)
+  }
+
+  private applyScrollSnapshot = (snapshot: ScrollSnapshot, checks = 0) => {
+    this.cancelScrollToIndex()
+
+    const anchor = getSnapshotAnchor(snapshot)
+    if (this.findIndexForKey(anchor.key, [anchor.index]) === undefined) return
+
+    const moved = this.restoreScrollAnchor(anchor)
+    if (moved) {
+      this.flushPendingScrollOffset()
+    }
+
+    // The anchor's real size may differ from the imported or estimated one,
+    // so check again once it's rendered and measured, unless it never is
+    const elementInDOM = this.elementsCache.has(anchor.key)
+    if (
+      (moved || !elementInDOM) &&
+      checks < MAX_SCROLL_CHECKS &&
+      this.isDynamicMode() &&
+      this.targetWindow
+    ) {
+      this.scrollToIndexTimeoutId = this.targetWindow.setTimeout(() => {
+        this.scrollToIndexTimeoutId = null
+        this.applyScrollSnapshot(snapshot, checks + 1)
+      }, SCROLL_CHECK_DELAY)
+    }
+  }
+
+  measure = () => {
+    this.itemSizeCache = new Map()
+    this.measuredItems.clear()
+    this.sizeStatsByType.clear()
+    this.estimateErrorSum = 0
+    this.adaptiveEstimates.clear()
+    this.sizeIndex = null
+    this.pendingMeasuredCacheIndexes = []
+    this.laneAssignments.clear()
+    this.measurementsVersion++
+    this.notify(false)
+  }
+}
+
+const findNearestBinarySearch = (
+  low: number,
+  high: number,
+  getCurrentValue: (i: number) => number,
+  value: number,
+) => {
+  while (low <= high) {
+    const middle = ((low + high) / 2) | 0
+    const currentValue = getCurrentValue(middle)
+
+    if (currentValue < value) {
+      low = middle + 1
+    } else if (currentValue > value) {
+      high = middle - 1
+    } else {
+      return middle
+    }
+  }
+
+  if (low > 0) {
+    return low - 1
+  } else {
+    return 0
+  }
+}
+
+function calculateRange({
+  itemCount,
+  getMeasurement,
+  findNearestIndex,
+  laneIndexes,
+  outerSize,
+  scrollOffset,
+  lanes,
+}: {
+  itemCount: number
+  getMeasurement: (index: number) => VirtualItem
+  findNearestIndex: (offset: number) => number
+  laneIndexes: Array<Array<number>>
+  outerSize: number
+  scrollOffset: number
+  lanes: number
+}) {
+  const lastIndex = itemCount - 1
+
+  // handle case when item count is less than or equal to lanes
+  if (itemCount <= lanes) {
+    return {
+      startIndex: 0,
+      endIndex: lastIndex,
+    }
+  }
+
+  if (lanes === 1) {
+    const startIndex = findNearestIndex(scrollOffset)
+    let endIndex = startIndex
+    while (
+      endIndex < lastIndex &&
+      getMeasurement(endIndex).end < scrollOffset + outerSize
+    ) {
+      endIndex++
+    }
+    return { startIndex, endIndex }
+  }
+
+  // Starts only grow with the index within a lane, so the visible items of
+  // each lane can be found with binary searches, however unbalanced the
+  // lanes are. The range spans the visible items of every lane.
+  let startIndex = Infinity
+  let endIndex = -Infinity
+  laneIndexes.forEach((indexes) => {
+    const first = lowerBound(
+      indexes.length,
+      (k) => getMeasurement(indexes[k]!).end > scrollOffset,
+    )
+    const last =
+      lowerBound(
+        indexes.length,
+        (k) => getMeasurement(indexes[k]!).start >= scrollOffset + outerSize,
+      ) - 1
+    if (first <= last) {
+      startIndex = Math.min(startIndex, indexes[first]!)
+      endIndex = Math.max(endIndex, indexes[last]!)
+    }
+  })
+
+  if (startIndex > endIndex) {
+    const nearestIndex = findNearestIndex(scrollOffset)
+    return { startIndex: nearestIndex, endIndex: nearestIndex }
+  }
+
+  return { startIndex, endIndex }
+}
+
+const getSnapshotAnchor = (snapshot: ScrollSnapshot): ScrollAnchor => ({
+  index: snapshot.anchorIndex,
+  key: snapshot.anchorKey,
+  offset: -snapshot.offsetWithinItem,
+})
+
+/** Returns the first position in `[0, length)` matching a monotone predicate */
+const lowerBound = (
+  length: number,
+  predicate: (position: number) => boolean,
+) => {
+  let low = 0
+  let high = length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (predicate(middle)) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+  return low
+}
@@ -1,5 +1,6 @@
 import { expect, test, vi } from 'vitest'
-import { Virtualizer } from '../src/index'
+import { GridVirtualizer, PagedDataSource, Virtualizer } from '../src/index'
+import type { ScrollSnapshot } from '../src/index'
 
 test('should export the Virtualizer class', () => {
   expect(Virtualizer).toBeDefined()
@@ -29,3 +30,1264 @@ test('should return correct total size with one item and multiple lanes', () =>
   })
   expect(virtualizer.getTotalSize()).toBe(50)
 })
+
+test('should update offsets of following items after a single resize', () => {
+  const virtualizer = new Virtualizer({
+    count: 100_000,
+    estimateSize: () => 50,
+    gap: 10,
+    paddingStart: 20,
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  expect(virtualizer.getTotalSize()).toBe(20 + 100_000 * 60 - 10)
+
+  virtualizer.resizeItem(10, 80)
+
+  expect(virtualizer.getMeasurement(10)).toMatchObject({
+    start: 20 + 10 * 60,
+    size: 80,
+    end: 20 + 10 * 60 + 80,
+  })
+  expect(virtualizer.getMeasurement(50_000)?.start).toBe(20 + 50_000 * 60 + 30)
+  expect(virtualizer.getTotalSize()).toBe(20 + 100_000 * 60 - 10 + 30)
+  expect(virtualizer.getVirtualItemForOffset(20 + 11 * 60 + 29)?.index).toBe(
+    10,
+  )
+  expect(virtualizer.getVirtualItemForOffset(20 + 11 * 60 + 30)?.index).toBe(
+    11,
+  )
+
+  const measurementsCache = virtualizer.measurementsCache
+  expect(Object.keys(measurementsCache)).toHaveLength(100_000)
+  expect(measurementsCache[11]?.start).toBe(20 + 11 * 60 + 30)
+  expect(measurementsCache[99_999]?.end).toBe(virtualizer.getTotalSize())
+})
+
+test('should only materialize rendered items with lazyMeasurements', () => {
+  const estimateSize = vi.fn(() => 40)
+  const getItemKey = vi.fn((index: number) => `row-${index}`)
+  const virtualizer = new Virtualizer({
+    count: 5_000_000,
+    lazyMeasurements: true,
+    estimateSize,
+    getItemKey,
+    initialRect: { width: 400, height: 400 },
+    initialOffset: 40 * 1_000_000,
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+
+  const items = virtualizer.getVirtualItems()
+  expect(items[0]?.index).toBe(999_999)
+  expect(items[items.length - 1]?.index).toBe(1_000_010)
+  expect(virtualizer.getTotalSize()).toBe(40 * 5_000_000)
+  expect(estimateSize).toHaveBeenCalledTimes(1)
+  expect(getItemKey.mock.calls.length).toBeLessThan(50)
+
+  virtualizer.resizeItem(10, 100)
+  virtualizer.resizeItem(20, 10)
+
+  expect(virtualizer.getMeasurement(1_000_000)?.start).toBe(
+    40 * 1_000_000 + 60 - 30,
+  )
+  expect(virtualizer.getTotalSize()).toBe(40 * 5_000_000 + 30)
+  expect(virtualizer.getVirtualItemForOffset(40 * 11 + 60)?.index).toBe(11)
+})
+
+test('should place items in the shortest lane and keep measured lanes', () => {
+  const virtualizer = new Virtualizer({
+    count: 100,
+    lanes: 2,
+    overscan: 0,
+    estimateSize: () => 100,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+
+  virtualizer.resizeItem(0, 500)
+  const lanes = () =>
+    Array.from({ length: 8 }, (_, i) => virtualizer.getMeasurement(i)?.lane)
+  expect(lanes()).toEqual([0, 1, 1, 1, 1, 1, 0, 1])
+  expect(virtualizer.getVirtualItems().map((item) => item.index)).toEqual([
+    0, 1, 2, 3,
+  ])
+
+  // Measured items keep their lane even when another lane becomes shorter
+  virtualizer.resizeItem(2, 100)
+  virtualizer.resizeItem(0, 50)
+  expect(lanes()).toEqual([0, 1, 1, 0, 0, 1, 0, 1])
+  expect(virtualizer.getTotalSize()).toBe(
+    Math.max(
+      ...virtualizer.measurementsCache.map((measurement) => measurement.end),
+    ),
+  )
+})
+
+test('should place items in the lane returned by getItemLane', () => {
+  const virtualizer = new Virtualizer({
+    count: 20,
+    lanes: 2,
+    overscan: 0,
+    estimateSize: () => 100,
+    getItemLane: (index) => (index < 15 ? 0 : undefined),
+    initialRect: { width: 400, height: 300 },
+    initialOffset: 1200,
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+
+  expect(virtualizer.getMeasurement(14)?.start).toBe(1400)
+  expect(virtualizer.getMeasurement(19)?.lane).toBe(1)
+  expect(virtualizer.getTotalSize()).toBe(1500)
+  expect(virtualizer.getVirtualItems().map((item) => item.index)).toEqual([
+    12, 13, 14,
+  ])
+})
+
+test('should derive lanes from the width and keep the top item anchored', () => {
+  let emitRect: (rect: { width: number; height: number }) => void = () => {}
+  const scrollToFn = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 100,
+    minLaneSize: 200,
+    estimateSize: () => 100,
+    initialRect: { width: 400, height: 300 },
+    initialOffset: 1000,
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn,
+    observeElementRect: vi.fn((_, cb) => {
+      emitRect = cb
+    }),
+    observeElementOffset: vi.fn(),
+  })
+  virtualizer._willUpdate()
+
+  expect(virtualizer.getLanes()).toBe(2)
+  expect(virtualizer.getVirtualItems()[0]?.index).toBe(19)
+
+  scrollToFn.mockClear()
+  emitRect({ width: 850, height: 300 })
+
+  expect(virtualizer.getLanes()).toBe(4)
+  expect(virtualizer.getMeasurement(20)?.start).toBe(500)
+  expect(virtualizer.scrollOffset).toBe(500)
+  virtualizer._willUpdate()
+  expect(scrollToFn).toHaveBeenCalledWith(500, expect.anything(), virtualizer)
+})
+
+test('should render the active sticky item and push it out', () => {
+  let emitOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const onChange = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 100,
+    overscan: 0,
+    stickyIndexes: [20, 0, 10],
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn((_, cb) => {
+      emitOffset = cb
+    }),
+    onChange,
+  })
+  virtualizer._willUpdate()
+
+  emitOffset(620, false)
+  const items = virtualizer.getVirtualItems()
+  expect(items.map((item) => item.index)).toEqual([
+    10, 12, 13, 14, 15, 16, 17, 18,
+  ])
+  expect(items[0]).toMatchObject({
+    sticky: true,
+    activeSticky: true,
+    stickyOffset: 0,
+  })
+  expect(items[1]?.sticky).toBeUndefined()
+
+  emitOffset(960, false)
+  expect(virtualizer.getVirtualItems()[0]?.stickyOffset).toBe(-10)
+
+  // Pushing the sticky item notifies even when the range doesn't change
+  onChange.mockClear()
+  emitOffset(965, false)
+  expect(onChange).toHaveBeenCalledTimes(1)
+  expect(virtualizer.getVirtualItems()[0]?.stickyOffset).toBe(-15)
+
+  emitOffset(1000, false)
+  expect(virtualizer.getActiveStickyIndex()).toBe(20)
+  expect(virtualizer.getVirtualItems()[0]).toMatchObject({
+    index: 20,
+    activeSticky: true,
+  })
+})
+
+test('should map indexes to sections and scroll to a section header', () => {
+  const scrollElement = document.createElement('div')
+  Object.defineProperty(scrollElement, 'scrollHeight', { value: 650 })
+  const scrollToFn = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 13,
+    overscan: 0,
+    sectionCounts: [3, 0, 7],
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 150 },
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  virtualizer._willUpdate()
+
+  expect(virtualizer.getSectionForIndex(3)).toBe(0)
+  expect(virtualizer.getSectionForIndex(4)).toBe(1)
+  expect(virtualizer.getSectionForIndex(5)).toBe(2)
+  expect(virtualizer.getSectionForIndex(13)).toBeUndefined()
+  expect(virtualizer.getSectionRange(2)).toEqual({
+    startIndex: 5,
+    endIndex: 12,
+  })
+  expect(virtualizer.getSectionRange(3)).toBeUndefined()
+  expect(
+    virtualizer
+      .getVirtualItems()
+      .map((item) => [item.index, item.section, item.sectionHeader]),
+  ).toEqual([
+    [0, 0, true],
+    [1, 0, false],
+    [2, 0, false],
+  ])
+
+  virtualizer.scrollToSection(2)
+  expect(scrollToFn).toHaveBeenCalledWith(
+    250,
+    expect.objectContaining({ behavior: undefined }),
+    virtualizer,
+  )
+})
+
+test('should start at the end and follow it until the user scrolls back', () => {
+  let emitOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const scrollToFn = vi.fn()
+  const options = {
+    count: 20,
+    anchorToEnd: true,
+    overscan: 0,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn((_, cb) => {
+      emitOffset = cb
+    }),
+  }
+  const scrollElement = document.createElement('div')
+  const virtualizer = new Virtualizer(options)
+  virtualizer._willUpdate()
+
+  const lastOffset = () => scrollToFn.mock.lastCall?.[0]
+  expect(lastOffset()).toBe(700)
+  expect(virtualizer.isAtEnd).toBe(true)
+  expect(virtualizer.getVirtualItems()[0]?.index).toBe(14)
+
+  // Appended items
+  virtualizer.setOptions({ ...options, count: 22 })
+  virtualizer._willUpdate()
+  expect(lastOffset()).toBe(800)
+  emitOffset(800, true)
+
+  // The last item grows without any scroll correction
+  scrollToFn.mockClear()
+  virtualizer.resizeItem(21, 100)
+  expect(scrollToFn).not.toHaveBeenCalled()
+  virtualizer._willUpdate()
+  expect(lastOffset()).toBe(850)
+  emitOffset(850, true)
+
+  // Scrolling back stops following
+  emitOffset(600, true)
+  expect(virtualizer.isAtEnd).toBe(false)
+  scrollToFn.mockClear()
+  virtualizer.setOptions({ ...options, count: 23 })
+  virtualizer._willUpdate()
+  expect(scrollToFn).not.toHaveBeenCalled()
+
+  emitOffset(950, true)
+  expect(virtualizer.isAtEnd).toBe(true)
+})
+
+test('should keep the first visible item in place when items are prepended', () => {
+  let emitOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const scrollToFn = vi.fn()
+  let keys = Array.from({ length: 50 }, (_, i) => `message-${i}`)
+  const options = () => ({
+    count: keys.length,
+    getItemKey: (index: number) => keys[index]!,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn((_, cb) => {
+      emitOffset = cb
+    }),
+  })
+  const scrollElement = document.createElement('div')
+  const virtualizer = new Virtualizer(options())
+  virtualizer._willUpdate()
+  emitOffset(1020, false)
+
+  keys = [...Array.from({ length: 10 }, (_, i) => `older-${i}`), ...keys]
+  virtualizer.setOptions(options())
+
+  expect(virtualizer.scrollOffset).toBe(1520)
+  expect(virtualizer.getVirtualItemForOffset(1520)?.key).toBe('message-20')
+  scrollToFn.mockClear()
+  virtualizer._willUpdate()
+  expect(scrollToFn).toHaveBeenCalledWith(1520, expect.anything(), virtualizer)
+
+  // Appending after the viewport doesn't move it
+  emitOffset(1520, false)
+  keys = [...keys, 'message-50']
+  virtualizer.setOptions(options())
+  expect(virtualizer.scrollOffset).toBe(1520)
+})
+
+test('should export and import measured sizes by key', () => {
+  const createVirtualizer = (
+    keys: Array<string>,
+    initialSizeCache?: Record<string, number>,
+  ) =>
+    new Virtualizer({
+      count: keys.length,
+      getItemKey: (index) => keys[index]!,
+      estimateSize: () => 50,
+      initialSizeCache,
+      getScrollElement: () => null,
+      scrollToFn: vi.fn(),
+      observeElementRect: vi.fn(),
+      observeElementOffset: vi.fn(),
+    })
+
+  const first = createVirtualizer(['a', 'b', 'c'])
+  first.resizeItem(0, 100)
+  first.resizeItem(2, 30)
+  expect(first.exportSizeCache()).toEqual({ a: 100, c: 30 })
+
+  // Order and count changed since the export
+  const second = createVirtualizer(['c', 'd', 'a'], first.exportSizeCache())
+  expect([0, 1, 2].map((index) => second.getMeasurement(index)?.size)).toEqual(
+    [30, 50, 100],
+  )
+  expect(second.getTotalSize()).toBe(180)
+
+  // Adapters call `measure` on option changes, imported sizes survive it
+  second.resizeItem(1, 80)
+  second.measure()
+  expect([0, 1, 2].map((index) => second.getMeasurement(index)?.size)).toEqual(
+    [30, 50, 100],
+  )
+
+  const third = new Virtualizer({
+    count: 3,
+    estimateSize: () => 50,
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  third.resizeItem(1, 70)
+  third.importSizeCache({ 1: 10, 2: 20 })
+  expect([0, 1, 2].map((index) => third.getMeasurement(index)?.size)).toEqual(
+    [50, 70, 20],
+  )
+})
+
+test('should restore a scroll snapshot after sizes and order changed', () => {
+  const createVirtualizer = (
+    keys: Array<string>,
+    initialSnapshot?: ScrollSnapshot,
+  ) =>
+    new Virtualizer({
+      count: keys.length,
+      getItemKey: (index) => keys[index]!,
+      estimateSize: () => 50,
+      initialSnapshot,
+      initialRect: { width: 400, height: 300 },
+      getScrollElement: () => null,
+      scrollToFn: vi.fn(),
+      observeElementRect: vi.fn(),
+      observeElementOffset: vi.fn(),
+    })
+
+  const keys = Array.from({ length: 100 }, (_, i) => `row-${i}`)
+  const first = createVirtualizer(keys)
+  first.resizeItem(0, 250)
+  first.scrollOffset = 1030
+  const snapshot = first.getScrollSnapshot()!
+  expect(snapshot).toEqual({
+    anchorKey: 'row-16',
+    anchorIndex: 16,
+    offsetWithinItem: 30,
+    sizeCache: { 'row-0': 250 },
+  })
+
+  // Two items were prepended since the snapshot was taken
+  const second = createVirtualizer(['new-0', 'new-1', ...keys], snapshot)
+  expect(second.scrollOffset).toBe(100 + 1000 + 30)
+  expect(second.getVirtualItemForOffset(1130)?.key).toBe('row-16')
+
+  // Stops checking when the anchor is never rendered
+  vi.useFakeTimers()
+  const third = new Virtualizer({
+    count: keys.length,
+    getItemKey: (index) => keys[index]!,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => window as unknown as Element,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  third._willUpdate()
+  third.elementsCache.set('row-0', document.createElement('div'))
+  third.restoreScrollSnapshot(snapshot)
+  vi.advanceTimersByTime(60_000)
+  expect(vi.getTimerCount()).toBe(0)
+  vi.useRealTimers()
+})
+
+test('should learn estimates per item type from measured sizes', () => {
+  const virtualizer = new Virtualizer({
+    count: 100,
+    adaptiveEstimate: true,
+    getItemType: (index) => (index % 2 === 0 ? 'text' : 'image'),
+    estimateSize: () => 50,
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+
+  virtualizer.resizeItem(0, 30)
+  virtualizer.resizeItem(1, 200)
+  virtualizer.resizeItem(2, 40)
+  virtualizer.resizeItem(3, 100)
+
+  expect(virtualizer.getMeasurement(4)?.size).toBe(35)
+  expect(virtualizer.getMeasurement(5)?.size).toBe(150)
+  expect(virtualizer.getTotalSize()).toBe(370 + 48 * 35 + 48 * 150)
+  expect(virtualizer.getMeasurementStats()).toEqual({
+    measuredCount: 4,
+    mean: 92.5,
+    estimateError: (20 + 150 + 10 + 100) / 4,
+  })
+
+  // An item measured at its estimate keeps its size when the estimate moves
+  virtualizer.resizeItem(4, 35)
+  virtualizer.resizeItem(6, 95)
+  expect(virtualizer.getMeasurement(4)?.size).toBe(35)
+  expect(virtualizer.getMeasurement(8)?.size).toBe(50)
+
+  // Items above the viewport follow the estimate too, so the scroll offset
+  // keeps the top item in place. The layout is rebuilt once, not per resize.
+  const getItemKey = vi.fn((index: number) => index)
+  const scrollToFn = vi.fn()
+  const scrolled = new Virtualizer({
+    count: 200_000,
+    adaptiveEstimate: true,
+    estimateSize: () => 50,
+    getItemKey,
+    initialRect: { width: 400, height: 300 },
+    initialOffset: 25_000,
+    getScrollElement: () => null,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  expect(scrolled.getVirtualItemForOffset(25_000)?.index).toBe(500)
+  getItemKey.mockClear()
+  for (let index = 500; index < 506; index++) {
+    scrolled.resizeItem(index, 100)
+  }
+  expect(getItemKey.mock.calls.length).toBeLessThan(2 * 200_000)
+  expect(scrollToFn).toHaveBeenLastCalledWith(
+    25_000,
+    { adjustments: 25_000, behavior: undefined },
+    scrolled,
+  )
+  expect(scrolled.getVirtualItemForOffset(50_000)?.index).toBe(500)
+})
+
+test('should animate smooth scrollToIndex and retarget on resize', () => {
+  const frames: Array<FrameRequestCallback> = []
+  const requestAnimationFrame = vi
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => frames.push(callback))
+  const runFrame = (time: number) => frames.shift()?.(time)
+
+  const scrollElement = document.createElement('div')
+  Object.defineProperty(scrollElement, 'scrollHeight', { value: 10_000 })
+  const scrollToFn = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  virtualizer._willUpdate()
+  // Dynamic mode: some element was measured
+  virtualizer.elementsCache.set(0, document.createElement('div'))
+  scrollToFn.mockClear()
+
+  virtualizer.scrollToIndex(50, { align: 'start', behavior: 'smooth' })
+  runFrame(1000)
+  runFrame(1150)
+  virtualizer.resizeItem(10, 150)
+  runFrame(1300)
+  runFrame(1316)
+  expect(scrollToFn.mock.calls.map(([offset]) => offset)).toEqual([
+    0, 1250, 2600, 2600,
+  ])
+  expect(scrollToFn.mock.calls[0]?.[1]).toEqual({
+    adjustments: undefined,
+    behavior: 'auto',
+  })
+
+  // Keeps following until the target element is rendered
+  expect(frames).toHaveLength(1)
+  virtualizer.elementsCache.set(50, document.createElement('div'))
+  runFrame(1333)
+  expect(frames).toHaveLength(0)
+
+  requestAnimationFrame.mockRestore()
+})
+
+test('should animate with a custom duration and stop on user input', async () => {
+  const frames: Array<FrameRequestCallback> = []
+  const requestAnimationFrame = vi
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => frames.push(callback))
+  const runFrame = (time: number) => frames.shift()?.(time)
+
+  const scrollElement = document.createElement('div')
+  Object.defineProperty(scrollElement, 'scrollHeight', { value: 10_000 })
+  const scrollToFn = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  virtualizer._willUpdate()
+  scrollToFn.mockClear()
+
+  virtualizer.scrollToOffset(1000, { duration: 100, easing: (t) => t })
+  runFrame(0)
+  runFrame(50)
+  const cancelAnimationFrame = vi.spyOn(window, 'cancelAnimationFrame')
+  scrollElement.dispatchEvent(new Event('wheel'))
+  expect(cancelAnimationFrame).toHaveBeenCalledTimes(1)
+  expect(scrollToFn.mock.calls.map(([offset]) => offset)).toEqual([0, 500])
+  frames.length = 0
+
+  // Reduced motion jumps straight to the target
+  const matchMedia = vi
+    .spyOn(window, 'matchMedia')
+    .mockImplementation(
+      (query) => ({ matches: query.includes('reduce') }) as MediaQueryList,
+    )
+  scrollToFn.mockClear()
+  virtualizer.scrollToOffset(2000, { behavior: 'smooth', duration: 100 })
+  expect(frames).toHaveLength(0)
+  expect(scrollToFn).toHaveBeenCalledWith(
+    2000,
+    { adjustments: undefined, behavior: 'auto' },
+    virtualizer,
+  )
+  matchMedia.mockRestore()
+
+  // Without measured elements, the animation ends at the duration
+  const settled = vi.fn()
+  virtualizer
+    .scrollToIndex(60, { align: 'start', duration: 100 })
+    .then(settled)
+  runFrame(0)
+  runFrame(100)
+  runFrame(116)
+  expect(frames).toHaveLength(0)
+  await Promise.resolve()
+  expect(settled).toHaveBeenCalledWith(expect.objectContaining({ index: 60 }))
+
+  // In dynamic mode it waits for the target element, up to a frame limit
+  virtualizer.elementsCache.set(0, document.createElement('div'))
+  virtualizer.scrollToIndex(80, { duration: 100 })
+  for (let time = 0; frames.length > 0 && time < 10_000; time += 16) {
+    runFrame(time)
+  }
+  expect(frames).toHaveLength(0)
+
+  cancelAnimationFrame.mockRestore()
+  requestAnimationFrame.mockRestore()
+})
+
+test('should resolve scroll commands once settled or cancelled', async () => {
+  const scrollElement = document.createElement('div')
+  Object.defineProperty(scrollElement, 'scrollHeight', { value: 10_000 })
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => scrollElement,
+    scrollToFn: (offset) => onOffset(offset, true),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+  })
+  virtualizer._willUpdate()
+  // Dynamic mode: some element was measured
+  virtualizer.elementsCache.set(0, document.createElement('div'))
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 40))
+
+  // Waits for the target element to be rendered
+  const onSettled = vi.fn()
+  virtualizer.scrollToIndex(50, { align: 'start' }).then(onSettled)
+  await tick()
+  expect(onSettled).not.toHaveBeenCalled()
+  virtualizer.elementsCache.set(50, document.createElement('div'))
+  await tick()
+  expect(onSettled).toHaveBeenCalledWith(
+    expect.objectContaining({ index: 50, start: 2500 }),
+  )
+
+  // Another scroll command or a wheel or keyboard interaction cancels it
+  const interrupted = virtualizer.scrollToIndex(80)
+  const byWheel = virtualizer.scrollToOffset(0)
+  await expect(interrupted).resolves.toBeNull()
+  scrollElement.dispatchEvent(new Event('wheel'))
+  await expect(byWheel).resolves.toBeNull()
+  const byKeyboard = virtualizer.scrollToOffset(0)
+  scrollElement.dispatchEvent(new Event('keydown'))
+  await expect(byKeyboard).resolves.toBeNull()
+
+  // Offsets past either end are clamped to the scrollable range
+  await expect(virtualizer.scrollBy(-100)).resolves.toMatchObject({ index: 0 })
+  await expect(virtualizer.scrollBy(100_000)).resolves.toMatchObject({
+    index: 99,
+  })
+  expect(virtualizer.scrollOffset).toBe(10_000 - 300)
+})
+
+test('should emit typed events for range, scroll, resize and total size', () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const onChange = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    overscan: 0,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+    onChange,
+  })
+  virtualizer._willUpdate()
+
+  const events: Array<[string, unknown]> = []
+  const record =
+    (name: string) =>
+    (payload: unknown): void => {
+      events.push([name, payload])
+    }
+  virtualizer.on('rangeChange', record('rangeChange'))
+  virtualizer.on('scrollStart', record('scrollStart'))
+  virtualizer.on('scrollEnd', record('scrollEnd'))
+  virtualizer.on('itemResize', record('itemResize'))
+  const unsubscribe = virtualizer.on(
+    'totalSizeChange',
+    record('totalSizeChange'),
+  )
+  expect(events).toEqual([])
+
+  onOffset(500, true)
+  onOffset(600, true)
+  onOffset(600, false)
+  expect(events).toEqual([
+    ['scrollStart', { offset: 500, direction: 'forward' }],
+    ['rangeChange', { startIndex: 10, endIndex: 15 }],
+    ['rangeChange', { startIndex: 12, endIndex: 17 }],
+    ['scrollEnd', { offset: 600 }],
+  ])
+
+  events.length = 0
+  virtualizer.resizeItem(20, 80)
+  expect(events).toEqual([
+    [
+      'itemResize',
+      {
+        item: expect.objectContaining({ index: 20, size: 50 }),
+        size: 80,
+        delta: 30,
+      },
+    ],
+    ['totalSizeChange', { totalSize: 5030, previousTotalSize: 5000 }],
+  ])
+  expect(onChange).toHaveBeenCalled()
+
+  // Option changes are picked up on update
+  events.length = 0
+  unsubscribe()
+  virtualizer.setOptions({ ...virtualizer.options, count: 10 })
+  virtualizer._willUpdate()
+  expect(events).toEqual([['rangeChange', { startIndex: 9, endIndex: 9 }]])
+})
+
+test('should report visible items with their visible ratio', () => {
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    scrollPaddingStart: 20,
+    initialOffset: 110,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+
+  expect(
+    virtualizer
+      .getVisibleItems()
+      .map(({ index, visibleRatio }) => [index, visibleRatio]),
+  ).toEqual([
+    [2, 0.4],
+    [3, 1],
+    [4, 1],
+    [5, 1],
+    [6, 1],
+    [7, 1],
+    [8, 0.2],
+  ])
+  expect(virtualizer.getFirstFullyVisibleIndex()).toBe(3)
+  expect(virtualizer.getLastFullyVisibleIndex()).toBe(7)
+})
+
+test('should emit one impression per key after the dwell time', () => {
+  vi.useFakeTimers()
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 100,
+    overscan: 0,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+  })
+  virtualizer._willUpdate()
+
+  const seen: Array<[number, number]> = []
+  virtualizer.on('impression', ({ item, dwellTime }) => {
+    seen.push([item.index, dwellTime])
+  })
+
+  vi.advanceTimersByTime(500)
+  // Item 0 leaves before the dwell time, item 4 is half visible
+  onOffset(150, true)
+  vi.advanceTimersByTime(500)
+  expect(seen).toEqual([
+    [1, 1000],
+    [2, 1000],
+  ])
+  vi.advanceTimersByTime(500)
+  expect(seen.slice(2)).toEqual([
+    [3, 1000],
+    [4, 1000],
+  ])
+
+  // Already seen keys don't make a second impression
+  onOffset(0, false)
+  vi.advanceTimersByTime(1000)
+  expect(seen.slice(4)).toEqual([[0, 1000]])
+
+  virtualizer.resetImpressions()
+  vi.advanceTimersByTime(1000)
+  expect(seen.slice(5).map(([index]) => index)).toEqual([0, 1, 2])
+
+  // Unmounting clears the pending check
+  onOffset(300, false)
+  virtualizer._didMount()()
+  vi.advanceTimersByTime(1000)
+  expect(seen).toHaveLength(8)
+
+  // Without a scroll element, the global timers run the checks
+  const detached = new Virtualizer({
+    count: 100,
+    estimateSize: () => 100,
+    overscan: 0,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => null,
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+  })
+  const detachedSeen: Array<number> = []
+  detached.on('impression', ({ item }) => detachedSeen.push(item.index))
+  vi.advanceTimersByTime(1000)
+  expect(detachedSeen).toEqual([0, 1, 2])
+
+  vi.useRealTimers()
+})
+
+test('should overscan in pixels and further ahead while scrolling fast', () => {
+  vi.useFakeTimers()
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const virtualizer = new Virtualizer({
+    count: 100,
+    estimateSize: () => 50,
+    overscan: 0,
+    overscanPx: 100,
+    overscanTime: 100,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+  })
+  virtualizer._willUpdate()
+
+  onOffset(1000, false)
+  expect(virtualizer.getVirtualIndexes()).toEqual([
+    18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28,
+  ])
+
+  // 2px/ms forward, smoothed to 1px/ms: 100px more ahead
+  onOffset(1000, true)
+  vi.advanceTimersByTime(10)
+  onOffset(1020, true)
+  expect(virtualizer.getVirtualIndexes()).toEqual([
+    18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31,
+  ])
+
+  // Travelling ahead is capped to one viewport
+  vi.advanceTimersByTime(10)
+  onOffset(2020, true)
+  expect(virtualizer.getVirtualIndexes().slice(-1)).toEqual([55])
+
+  onOffset(2020, false)
+  expect(virtualizer.getVirtualIndexes()).toEqual([
+    38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49,
+  ])
+
+  vi.useRealTimers()
+})
+
+test('should flag fast scrolling with hysteresis and notify on toggle', () => {
+  vi.useFakeTimers()
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const onChange = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 10,
+    estimateSize: () => 500,
+    initialRect: { width: 400, height: 100 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+    onChange,
+  })
+  virtualizer._willUpdate()
+
+  const scrollTo = (offset: number) => {
+    vi.advanceTimersByTime(10)
+    onOffset(offset, true)
+    return [virtualizer.scrollVelocity, virtualizer.isScrollingFast]
+  }
+  onOffset(0, true)
+  expect(scrollTo(10)).toEqual([0.5, false])
+  expect(scrollTo(80)).toEqual([3.75, true])
+  onChange.mockClear()
+  // Stays fast until the velocity drops below `slowScrollVelocity`
+  expect(scrollTo(95)).toEqual([2.625, true])
+  expect(scrollTo(105)).toEqual([1.8125, true])
+  expect(onChange).toHaveBeenCalledTimes(0)
+  expect(scrollTo(105)).toEqual([0.90625, false])
+  expect(onChange).toHaveBeenCalledTimes(1)
+
+  onOffset(105, false)
+  expect(virtualizer.scrollVelocity).toBe(0)
+
+  vi.useRealTimers()
+})
+
+test('should call onEndReached and onStartReached once per count', async () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  let finishLoad = () => {}
+  const onEndReached = vi.fn(
+    () => new Promise<void>((resolve) => (finishLoad = resolve)),
+  )
+  const onStartReached = vi.fn()
+  const options = {
+    count: 20,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_: unknown, cb: typeof onOffset) => {
+      onOffset = cb
+    },
+    onEndReached,
+    onStartReached,
+    reachedThreshold: 2,
+  }
+  const virtualizer = new Virtualizer(options)
+  virtualizer._willUpdate()
+  expect(onStartReached).toHaveBeenCalledTimes(1)
+  expect(onEndReached).not.toHaveBeenCalled()
+
+  // Items 12 to 17 are visible, within 2 items of the end
+  onOffset(600, true)
+  onOffset(650, true)
+  expect(onEndReached).toHaveBeenCalledTimes(1)
+
+  // Loading nothing doesn't call it again for the same count
+  finishLoad()
+  await Promise.resolve()
+  onOffset(700, true)
+  expect(onEndReached).toHaveBeenCalledTimes(1)
+
+  virtualizer.setOptions({ ...options, count: 40 })
+  virtualizer._willUpdate()
+  onOffset(1650, true)
+  expect(onEndReached).toHaveBeenCalledTimes(2)
+
+  // Leaving the start allows another call at the same count
+  onOffset(0, true)
+  expect(onStartReached).toHaveBeenCalledTimes(2)
+})
+
+test('should call onEndReached for an empty list to load the first page', async () => {
+  let finishLoad = () => {}
+  const onEndReached = vi.fn(
+    () => new Promise<void>((resolve) => (finishLoad = resolve)),
+  )
+  const options = {
+    count: 0,
+    estimateSize: () => 50,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: vi.fn(),
+    onEndReached,
+  }
+  const virtualizer = new Virtualizer(options)
+  virtualizer._willUpdate()
+  expect(onEndReached).toHaveBeenCalledTimes(1)
+
+  // Not again while the first load is pending, nor for the same count
+  virtualizer.setOptions({ ...options, count: 0 })
+  virtualizer._willUpdate()
+  virtualizer.measure()
+  finishLoad()
+  await Promise.resolve()
+  expect(onEndReached).toHaveBeenCalledTimes(1)
+})
+
+test('should load requested pages with debouncing and evict far ones', async () => {
+  vi.useFakeTimers()
+  const loadPage = vi.fn(async (pageIndex: number) => {
+    if (pageIndex === 5) throw new Error('offline')
+    return Array.from({ length: 10 }, (_, i) => `row ${pageIndex * 10 + i}`)
+  })
+  const onError = vi.fn()
+  const dataSource = new PagedDataSource({
+    pageSize: 10,
+    loadPage,
+    maxPages: 2,
+    onError,
+  })
+
+  dataSource.requestIndexes([5, 6, 7, 8, 9, 10, 11, 12, 13, 14])
+  await vi.advanceTimersByTimeAsync(50)
+  dataSource.requestRange(15, 24)
+  await vi.advanceTimersByTimeAsync(50)
+  expect(loadPage).not.toHaveBeenCalled()
+  await vi.advanceTimersByTimeAsync(50)
+  expect(loadPage.mock.calls).toEqual([[1], [2]])
+  expect(dataSource.isItemLoaded(5)).toBe(false)
+  expect(dataSource.getItem(15)).toBe('row 15')
+
+  // Keeps at most 2 pages, dropping the furthest from the requested range
+  dataSource.requestRange(40, 49)
+  await vi.advanceTimersByTimeAsync(100)
+  expect(dataSource.getLoadedRanges()).toEqual([
+    { startIndex: 20, endIndex: 29 },
+    { startIndex: 40, endIndex: 49 },
+  ])
+
+  // Failed pages are requested again
+  dataSource.requestRange(50, 50)
+  await vi.advanceTimersByTimeAsync(100)
+  dataSource.requestRange(50, 50)
+  await vi.advanceTimersByTimeAsync(100)
+  expect(onError).toHaveBeenCalledTimes(2)
+  expect(dataSource.isItemLoaded(50)).toBe(false)
+
+  // Synchronous throws are reported as well
+  loadPage.mockImplementationOnce(() => {
+    throw new Error('invalid page')
+  })
+  dataSource.requestRange(60, 60)
+  await vi.advanceTimersByTimeAsync(100)
+  expect(onError).toHaveBeenLastCalledWith(expect.any(Error), 6)
+  expect(dataSource.isItemLoading(60)).toBe(false)
+
+  // A short last page only loads the items it has
+  loadPage.mockResolvedValueOnce(['row 70', 'row 71'])
+  dataSource.requestRange(70, 79)
+  await vi.advanceTimersByTimeAsync(100)
+  expect(dataSource.isItemLoaded(71)).toBe(true)
+  expect(dataSource.isItemLoaded(72)).toBe(false)
+
+  // Loads in flight are dropped on cleanup
+  let finishLoad = (_items: Array<string>) => {}
+  loadPage.mockImplementationOnce(
+    () => new Promise((resolve) => (finishLoad = resolve)),
+  )
+  dataSource.requestRange(80, 80)
+  await vi.advanceTimersByTimeAsync(100)
+  const onChange = vi.fn()
+  dataSource.setOptions({ ...dataSource.options, onChange })
+  dataSource.cleanup()
+  finishLoad(['row 80'])
+  await vi.advanceTimersByTimeAsync(0)
+  expect(onChange).not.toHaveBeenCalled()
+  expect(dataSource.isItemLoaded(80)).toBe(false)
+
+  vi.useRealTimers()
+})
+
+test('should estimate the remainder while hasMore and end without a jump', () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const options = {
+    count: 20,
+    estimateSize: () => 50,
+    hasMore: true,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => document.createElement('div'),
+    scrollToFn: vi.fn(),
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_: unknown, cb: typeof onOffset) => {
+      onOffset = cb
+    },
+  }
+  const virtualizer = new Virtualizer(options)
+  virtualizer._willUpdate()
+  expect(virtualizer.getTotalSize()).toBe(1500)
+
+  virtualizer.setOptions({ ...options, count: 30 })
+  expect(virtualizer.getTotalSize()).toBe(2000)
+
+  // The list ends while its estimated remainder is in view
+  onOffset(1700, false)
+  virtualizer.setOptions({ ...options, count: 30, hasMore: false })
+  expect(virtualizer.getTotalSize()).toBe(2000)
+  onOffset(1500, true)
+  expect(virtualizer.getTotalSize()).toBe(1800)
+  onOffset(1000, true)
+  expect(virtualizer.getTotalSize()).toBe(1500)
+})
+
+test('should map a capped scroll range onto a longer list', async () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const scrollElement = document.createElement('div')
+  Object.defineProperty(scrollElement, 'scrollHeight', { value: 1_000_490 })
+  const scrollToFn = vi.fn()
+  const virtualizer = new Virtualizer({
+    count: 1_000_000,
+    estimateSize: () => 50,
+    overscan: 0,
+    maxScrollSize: 1_000_490,
+    initialRect: { width: 400, height: 500 },
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_, cb) => {
+      onOffset = cb
+    },
+  })
+  virtualizer._willUpdate()
+  expect(virtualizer.getTotalSize()).toBe(1_000_490)
+
+  // Each physical pixel spans 50 virtual ones, items render near the viewport
+  onOffset(10_000, true)
+  expect(virtualizer.scrollOffset).toBe(500_000)
+  const [first] = virtualizer.getVirtualItems()
+  expect(first).toMatchObject({ index: 10_000, start: 10_000 })
+
+  expect(virtualizer.getOffsetForIndex(20_000, 'start')).toEqual([
+    1_000_000,
+    'start',
+  ])
+  const settled = virtualizer.scrollToIndex(20_000, { align: 'start' })
+  expect(scrollToFn).toHaveBeenLastCalledWith(
+    20_000,
+    expect.anything(),
+    virtualizer,
+  )
+  onOffset(20_000, false)
+  await expect(settled).resolves.toMatchObject({ index: 20_000 })
+
+  onOffset(999_990, false)
+  expect(virtualizer.isAtEnd).toBe(true)
+  const items = virtualizer.getVirtualItems()
+  expect(items[items.length - 1]).toMatchObject({
+    index: 999_999,
+    end: 1_000_490,
+  })
+})
+
+test('should track scrollMargin from an element and keep the anchor', () => {
+  let onOffset: (offset: number, isScrolling: boolean) => void = () => {}
+  const scrollElement = document.createElement('div')
+  const list = document.createElement('div')
+  scrollElement.appendChild(list)
+  let listTop = 200
+  list.getBoundingClientRect = () =>
+    ({ top: listTop - scrollElement.scrollTop, left: 0 }) as DOMRect
+  const scrollToFn = vi.fn()
+  const options = {
+    count: 100,
+    estimateSize: () => 50,
+    overscan: 0,
+    initialRect: { width: 400, height: 300 },
+    getScrollElement: () => scrollElement,
+    getScrollMarginElement: () => list,
+    scrollToFn,
+    observeElementRect: vi.fn(),
+    observeElementOffset: (_: unknown, cb: typeof onOffset) => {
+      onOffset = cb
+    },
+  }
+  const virtualizer = new Virtualizer(options)
+  const unmount = virtualizer._didMount()
+  virtualizer._willUpdate()
+  expect(virtualizer.options.scrollMargin).toBe(200)
+  expect(virtualizer.getVirtualItems()[0]?.start).toBe(200)
+
+  scrollElement.scrollTop = 1200
+  onOffset(1200, false)
+  expect(virtualizer.getVirtualItems()[0]?.index).toBe(20)
+
+  // Content before the list grows out of view
+  listTop = 300
+  window.dispatchEvent(new Event('resize'))
+  expect(virtualizer.options.scrollMargin).toBe(300)
+  expect(scrollToFn).toHaveBeenLastCalledWith(
+    1300,
+    expect.anything(),
+    virtualizer,
+  )
+
+  virtualizer.setOptions(options)
+  expect(virtualizer.options.scrollMargin).toBe(300)
+  unmount()
+})
+
+test('should virtualize grid rows and columns from a single offset observer', () => {
+  const scrollElement = document.createElement('div')
+  Object.defineProperties(scrollElement, {
+    scrollHeight: { value: 50_000 },
+    scrollWidth: { value: 100_000 },
+  })
+  const onChange = vi.fn()
+  const observeElementRect = vi.fn((_, cb) => cb({ width: 400, height: 200 }))
+  let emitOffset: (
+    offset: { top: number; left: number },
+    isScrolling: boolean,
+  ) => void = () => {}
+  const observeElementOffset = vi.fn((_, cb) => {
+    emitOffset = cb
+  })
+  const scrollToFn = vi.fn()
+  const grid = new GridVirtualizer({
+    rowCount: 1000,
+    columnCount: 1000,
+    estimateRowSize: () => 50,
+    estimateColumnSize: () => 100,
+    overscan: 0,
+    getScrollElement: () => scrollElement,
+    scrollToFn,
+    observeElementRect,
+    observeElementOffset,
+    onChange,
+  })
+  grid._willUpdate()
+
+  expect(observeElementRect).toHaveBeenCalledTimes(1)
+  expect(observeElementOffset).toHaveBeenCalledTimes(1)
+
+  onChange.mockClear()
+  emitOffset({ top: 500, left: 1000 }, true)
+
+  expect(onChange).toHaveBeenCalledTimes(1)
+  expect(grid.getVirtualRows().map((row) => row.index)).toEqual([
+    10, 11, 12, 13,
+  ])
+  expect(grid.getVirtualColumns().map((column) => column.index)).toEqual([
+    10, 11, 12, 13,
+  ])
+  expect(grid.getVirtualCells()).toHaveLength(16)
+  expect(grid.getVirtualCells()[0]?.key).toBe('10:10')
+  expect(grid.getTotalSize()).toEqual({ width: 100_000, height: 50_000 })
+
+  scrollToFn.mockClear()
+  grid.scrollToCell(100, 200, { align: 'start' })
+  expect(scrollToFn.mock.calls.map(([offset]) => offset)).toEqual([
+    5_000, 20_000,
+  ])
+
+  // A smooth scroll moves both axes with a single call
+  scrollToFn.mockClear()
+  scrollElement.scrollTo = vi.fn()
+  grid.scrollToCell(10, 20, { align: 'start', behavior: 'smooth' })
+  expect(scrollToFn).not.toHaveBeenCalled()
+  expect(scrollElement.scrollTo).toHaveBeenCalledTimes(1)
+  expect(scrollElement.scrollTo).toHaveBeenCalledWith({
+    top: 500,
+    left: 2_000,
+    behavior: 'smooth',
+  })
+})
@@ -1,8 +1,11 @@
 import {
+  GridVirtualizer,
   Virtualizer,
   elementScroll,
   observeElementOffset,
   observeElementRect,
+  observeGridElementOffset,
+  observeGridElementRect,
   observeWindowOffset,
   observeWindowRect,
   windowScroll,
@@ -15,7 +18,11 @@ import {
   unref,
   watch,
 } from 'vue'
-import type { PartialKeys, VirtualizerOptions } from '@tanstack/virtual-core'
+import type {
+  GridVirtualizerOptions,
+  PartialKeys,
+  VirtualizerOptions,
+} from '@tanstack/virtual-core'
 import type { Ref } from 'vue'
 
 export * from '@tanstack/virtual-core'
@@ -113,3 +120,64 @@ export function useWindowVirtualizer<TItemElement extends Element>(
     })),
   )
 }
+
+export function useGridVirtualizer<
+  TScrollElement extends Element,
+  TItemElement extends Element,
+>(
+  options: MaybeRef<
+    PartialKeys<
+      GridVirtualizerOptions<TScrollElement, TItemElement>,
+      'observeElementRect' | 'observeElementOffset' | 'scrollToFn'
+    >
+  >,
+): Ref<GridVirtualizer<TScrollElement, TItemElement>> {
+  const resolvedOptions = computed(
+    (): GridVirtualizerOptions<TScrollElement, TItemElement> => ({
+      observeElementRect: observeGridElementRect,
+      observeElementOffset: observeGridElementOffset,
+      scrollToFn: elementScroll,
+      ...unref(options),
+    }),
+  )
+
+  const virtualizer = new GridVirtualizer(resolvedOptions.value)
+  const state = shallowRef(virtualizer)
+
+  const cleanup = virtualizer._didMount()
+
+  watch(
+    () => resolvedOptions.value.getScrollElement(),
+    (el) => {
+      if (el) {
+        virtualizer._willUpdate()
+      }
+    },
+    {
+      immediate: true,
+    },
+  )
+
+  watch(
+    resolvedOptions,
+    (options) => {
+      virtualizer.setOptions({
+        ...options,
+        onChange: (instance, sync) => {
+          triggerRef(state)
+          options.onChange?.(instance, sync)
+        },
+      })
+
+      virtualizer._willUpdate()
+      triggerRef(state)
+    },
+    {
+      immediate: true,
+    },
+  )
+
+  onScopeDispose(cleanup)
+
+  return state
+}